@@ -3,7 +3,7 @@
  * Contains all CCTP-supported chains with their metadata, contracts, and capabilities
  */
 
-import { ChainMetadata, VMType, ChainConfig } from '../types/chain';
+import { ChainMetadata, VMType, ChainConfig, FinalityTag, RpcEndpointConfig } from '../types/chain';
 
 // Common EVM contract addresses (most chains use the same addresses)
 const COMMON_EVM_ADDRESSES = {
@@ -13,9 +13,13 @@ const COMMON_EVM_ADDRESSES = {
   messageHelper: '0xec546b6B005471ECf012e5aF77FBeC07e0FD8f78'
 };
 
-// Helper to get QuickNode RPC URL for a chain
+// Helper to get the RPC endpoints for a chain
 // Supports both RPC_* and QUICKNODE_*_RPC_URL formats for backward compatibility
-function getQuickNodeRPC(chainName: string, fallback: string): string {
+// Values are comma-separated URLs with an optional weight (default 1):
+//   RPC_ETHEREUM=https://a.example/key|3,https://b.example/key
+// The fallback URL is only used when no endpoint is configured (QUICKNODE_RPC_URL is shared by
+// all chains, so it must never serve as another chain's backup)
+function getRpcEndpoints(chainName: string, fallback: string): RpcEndpointConfig[] {
   // Map chain names to env var names (RPC_* format)
   const chainEnvMap: Record<string, string> = {
     'ETHEREUM': 'RPC_ETHEREUM',
@@ -32,13 +36,27 @@ function getQuickNodeRPC(chainName: string, fallback: string): string {
     'SEI': 'RPC_SEI',
     'HYPEREVM': 'RPC_HYPEREVM',
     'INK': 'RPC_INK',
+    'SOLANA': 'RPC_SOLANA',
+    'STARKNET': 'RPC_STARKNET',
   };
   
   const envKey = chainEnvMap[chainName] || `RPC_${chainName}`;
   const legacyEnvKey = `QUICKNODE_${chainName.toUpperCase().replace(/\s+/g, '_')}_RPC_URL`;
   
-  // Try RPC_* first, then fallback to QUICKNODE_*_RPC_URL, then fallback value
-  return process.env[envKey] || process.env[legacyEnvKey] || fallback;
+  // Try RPC_* first, then fallback to QUICKNODE_*_RPC_URL
+  const configured = process.env[envKey] || process.env[legacyEnvKey] || '';
+  const endpoints: RpcEndpointConfig[] = [];
+  for (const entry of configured.split(',')) {
+    const [url, weight] = entry.trim().split('|');
+    if (!url) continue;
+    const parsedWeight = weight === undefined ? 1 : Number(weight);
+    endpoints.push({ url, weight: Number.isFinite(parsedWeight) && parsedWeight >= 0 ? parsedWeight : 1 });
+  }
+
+  if (endpoints.length === 0 && fallback) {
+    endpoints.push({ url: fallback, weight: 1 });
+  }
+  return endpoints;
 }
 
 export const MAINNET_CHAINS: Record<number, ChainMetadata> = {
@@ -48,7 +66,7 @@ export const MAINNET_CHAINS: Record<number, ChainMetadata> = {
     name: 'Ethereum',
     vmType: VMType.EVM,
     chainId: 1,
-    rpcUrl: getQuickNodeRPC('ETHEREUM', process.env.QUICKNODE_RPC_URL || 'https://eth.llamarpc.com'),
+    rpcEndpoints: getRpcEndpoints('ETHEREUM', process.env.QUICKNODE_RPC_URL || 'https://eth.llamarpc.com'),
     tokenSupport: {
       supportsUSDC: true,
       supportsUSYC: true
@@ -63,7 +81,10 @@ export const MAINNET_CHAINS: Record<number, ChainMetadata> = {
       usdcToken: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
       usycToken: '0xf29B01E5c6F9C44A0e41b42dF23A5e9Ef7c50c0f' // Example USYC address
     },
-    blockTime: 12000
+    blockTime: 12000,
+    confirmations: 12, // ~2.5 min
+    finality: FinalityTag.LATEST,
+    indexed: true
   },
 
   // Domain 1: Avalanche
@@ -72,7 +93,7 @@ export const MAINNET_CHAINS: Record<number, ChainMetadata> = {
     name: 'Avalanche',
     vmType: VMType.EVM,
     chainId: 43114,
-    rpcUrl: getQuickNodeRPC('AVALANCHE', process.env.QUICKNODE_RPC_URL || 'https://api.avax.network/ext/bc/C/rpc'),
+    rpcEndpoints: getRpcEndpoints('AVALANCHE', process.env.QUICKNODE_RPC_URL || 'https://api.avax.network/ext/bc/C/rpc'),
     tokenSupport: {
       supportsUSDC: true,
       supportsUSYC: false
@@ -86,7 +107,10 @@ export const MAINNET_CHAINS: Record<number, ChainMetadata> = {
       ...COMMON_EVM_ADDRESSES,
       usdcToken: '0xB97EF9Ef8734C71904D8002F8b6Bc66Dd9c48a6E'
     },
-    blockTime: 2000
+    blockTime: 2000,
+    confirmations: 1, // Snowman consensus, instant finality
+    finality: FinalityTag.LATEST,
+    indexed: true
   },
 
   // Domain 2: OP Mainnet
@@ -95,7 +119,7 @@ export const MAINNET_CHAINS: Record<number, ChainMetadata> = {
     name: 'OP Mainnet',
     vmType: VMType.EVM,
     chainId: 10,
-    rpcUrl: getQuickNodeRPC('OP_MAINNET', process.env.QUICKNODE_RPC_URL || 'https://mainnet.optimism.io'),
+    rpcEndpoints: getRpcEndpoints('OP_MAINNET', process.env.QUICKNODE_RPC_URL || 'https://mainnet.optimism.io'),
     tokenSupport: {
       supportsUSDC: true,
       supportsUSYC: false
@@ -109,7 +133,11 @@ export const MAINNET_CHAINS: Record<number, ChainMetadata> = {
       ...COMMON_EVM_ADDRESSES,
       usdcToken: '0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85'
     },
-    blockTime: 2000
+    blockTime: 2000,
+    estimateTimestamps: true,
+    confirmations: 10,
+    finality: FinalityTag.SAFE, // L2 block whose batch is posted to L1
+    indexed: true
   },
 
   // Domain 3: Arbitrum
@@ -118,7 +146,7 @@ export const MAINNET_CHAINS: Record<number, ChainMetadata> = {
     name: 'Arbitrum',
     vmType: VMType.EVM,
     chainId: 42161,
-    rpcUrl: getQuickNodeRPC('ARBITRUM', process.env.QUICKNODE_RPC_URL || 'https://arb1.arbitrum.io/rpc'),
+    rpcEndpoints: getRpcEndpoints('ARBITRUM', process.env.QUICKNODE_RPC_URL || 'https://arb1.arbitrum.io/rpc'),
     tokenSupport: {
       supportsUSDC: true,
       supportsUSYC: false
@@ -132,7 +160,10 @@ export const MAINNET_CHAINS: Record<number, ChainMetadata> = {
       ...COMMON_EVM_ADDRESSES,
       usdcToken: '0xaf88d065e77c8cC2239327C5EDb3A432268e5831'
     },
-    blockTime: 250
+    blockTime: 250,
+    confirmations: 20,
+    finality: FinalityTag.SAFE, // L2 block whose batch is posted to L1
+    indexed: true
   },
 
   // Domain 5: Solana
@@ -141,7 +172,7 @@ export const MAINNET_CHAINS: Record<number, ChainMetadata> = {
     name: 'Solana',
     vmType: VMType.SOLANA,
     chainId: 'mainnet-beta',
-    rpcUrl: getQuickNodeRPC('SOLANA', process.env.QUICKNODE_RPC_URL || 'https://api.mainnet-beta.solana.com'),
+    rpcEndpoints: getRpcEndpoints('SOLANA', process.env.QUICKNODE_RPC_URL || 'https://api.mainnet-beta.solana.com'),
     tokenSupport: {
       supportsUSDC: true,
       supportsUSYC: false
@@ -156,7 +187,10 @@ export const MAINNET_CHAINS: Record<number, ChainMetadata> = {
       tokenMessengerMinter: 'CCTPV2vPZJS2u2BBsUoscuikbYjnpFmbFsvVuJdgUMQe',
       usdcMint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v'
     },
-    blockTime: 400
+    blockTime: 400,
+    confirmations: 32, // slots
+    finality: FinalityTag.FINALIZED, // ~13s behind confirmed
+    indexed: true
   },
 
   // Domain 6: Base
@@ -165,7 +199,7 @@ export const MAINNET_CHAINS: Record<number, ChainMetadata> = {
     name: 'Base',
     vmType: VMType.EVM,
     chainId: 8453,
-    rpcUrl: getQuickNodeRPC('BASE', process.env.QUICKNODE_RPC_URL || 'https://mainnet.base.org'),
+    rpcEndpoints: getRpcEndpoints('BASE', process.env.QUICKNODE_RPC_URL || 'https://mainnet.base.org'),
     tokenSupport: {
       supportsUSDC: true,
       supportsUSYC: false
@@ -179,7 +213,11 @@ export const MAINNET_CHAINS: Record<number, ChainMetadata> = {
       ...COMMON_EVM_ADDRESSES,
       usdcToken: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913'
     },
-    blockTime: 2000
+    blockTime: 2000,
+    estimateTimestamps: true,
+    confirmations: 10,
+    finality: FinalityTag.SAFE, // L2 block whose batch is posted to L1
+    indexed: true
   },
 
   // Domain 7: Polygon PoS
@@ -188,7 +226,7 @@ export const MAINNET_CHAINS: Record<number, ChainMetadata> = {
     name: 'Polygon PoS',
     vmType: VMType.EVM,
     chainId: 137,
-    rpcUrl: getQuickNodeRPC('POLYGON', process.env.QUICKNODE_RPC_URL || 'https://polygon-rpc.com'),
+    rpcEndpoints: getRpcEndpoints('POLYGON', process.env.QUICKNODE_RPC_URL || 'https://polygon-rpc.com'),
     tokenSupport: {
       supportsUSDC: true,
       supportsUSYC: false
@@ -202,7 +240,10 @@ export const MAINNET_CHAINS: Record<number, ChainMetadata> = {
       ...COMMON_EVM_ADDRESSES,
       usdcToken: '0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359'
     },
-    blockTime: 2000
+    blockTime: 2000,
+    confirmations: 128, // PoS has seen deep reorgs
+    finality: FinalityTag.LATEST,
+    indexed: true
   },
 
   // Domain 10: Unichain
@@ -211,7 +252,7 @@ export const MAINNET_CHAINS: Record<number, ChainMetadata> = {
     name: 'Unichain',
     vmType: VMType.EVM,
     chainId: 1301,
-    rpcUrl: getQuickNodeRPC('UNICHAIN', process.env.QUICKNODE_RPC_URL || ''),
+    rpcEndpoints: getRpcEndpoints('UNICHAIN', process.env.QUICKNODE_RPC_URL || ''),
     tokenSupport: {
       supportsUSDC: true,
       supportsUSYC: false
@@ -225,7 +266,10 @@ export const MAINNET_CHAINS: Record<number, ChainMetadata> = {
       ...COMMON_EVM_ADDRESSES,
       usdcToken: '' // TBD
     },
-    blockTime: 2000
+    blockTime: 2000,
+    confirmations: 10,
+    finality: FinalityTag.SAFE, // L2 block whose batch is posted to L1
+    indexed: true
   },
 
   // Domain 11: Linea
@@ -234,7 +278,7 @@ export const MAINNET_CHAINS: Record<number, ChainMetadata> = {
     name: 'Linea',
     vmType: VMType.EVM,
     chainId: 59144,
-    rpcUrl: getQuickNodeRPC('LINEA', process.env.QUICKNODE_RPC_URL || 'https://rpc.linea.build'),
+    rpcEndpoints: getRpcEndpoints('LINEA', process.env.QUICKNODE_RPC_URL || 'https://rpc.linea.build'),
     tokenSupport: {
       supportsUSDC: true,
       supportsUSYC: false
@@ -248,7 +292,10 @@ export const MAINNET_CHAINS: Record<number, ChainMetadata> = {
       ...COMMON_EVM_ADDRESSES,
       usdcToken: '0x176211869cA2b568f2A7D4EE941E073a821EE1ff'
     },
-    blockTime: 2000
+    blockTime: 2000,
+    confirmations: 10,
+    finality: FinalityTag.LATEST,
+    indexed: true
   },
 
   // Domain 12: Codex
@@ -257,7 +304,7 @@ export const MAINNET_CHAINS: Record<number, ChainMetadata> = {
     name: 'Codex',
     vmType: VMType.EVM,
     chainId: 88888888,
-    rpcUrl: getQuickNodeRPC('CODEX', process.env.QUICKNODE_RPC_URL || ''),
+    rpcEndpoints: getRpcEndpoints('CODEX', process.env.QUICKNODE_RPC_URL || ''),
     tokenSupport: {
       supportsUSDC: true,
       supportsUSYC: false
@@ -271,7 +318,10 @@ export const MAINNET_CHAINS: Record<number, ChainMetadata> = {
       ...COMMON_EVM_ADDRESSES,
       usdcToken: ''
     },
-    blockTime: 2000
+    blockTime: 2000,
+    confirmations: 10,
+    finality: FinalityTag.LATEST,
+    indexed: false // No public RPC
   },
 
   // Domain 13: Sonic
@@ -280,7 +330,7 @@ export const MAINNET_CHAINS: Record<number, ChainMetadata> = {
     name: 'Sonic',
     vmType: VMType.EVM,
     chainId: 146,
-    rpcUrl: getQuickNodeRPC('SONIC', process.env.QUICKNODE_RPC_URL || ''),
+    rpcEndpoints: getRpcEndpoints('SONIC', process.env.QUICKNODE_RPC_URL || ''),
     tokenSupport: {
       supportsUSDC: true,
       supportsUSYC: false
@@ -294,7 +344,10 @@ export const MAINNET_CHAINS: Record<number, ChainMetadata> = {
       ...COMMON_EVM_ADDRESSES,
       usdcToken: ''
     },
-    blockTime: 1000
+    blockTime: 1000,
+    confirmations: 1, // instant finality
+    finality: FinalityTag.LATEST,
+    indexed: true
   },
 
   // Domain 14: World Chain
@@ -303,7 +356,7 @@ export const MAINNET_CHAINS: Record<number, ChainMetadata> = {
     name: 'World Chain',
     vmType: VMType.EVM,
     chainId: 480,
-    rpcUrl: getQuickNodeRPC('WORLD_CHAIN', process.env.QUICKNODE_RPC_URL || ''),
+    rpcEndpoints: getRpcEndpoints('WORLD_CHAIN', process.env.QUICKNODE_RPC_URL || ''),
     tokenSupport: {
       supportsUSDC: true,
       supportsUSYC: false
@@ -317,7 +370,11 @@ export const MAINNET_CHAINS: Record<number, ChainMetadata> = {
       ...COMMON_EVM_ADDRESSES,
       usdcToken: ''
     },
-    blockTime: 2000
+    blockTime: 2000,
+    estimateTimestamps: true,
+    confirmations: 10,
+    finality: FinalityTag.SAFE, // L2 block whose batch is posted to L1
+    indexed: true
   },
 
   // Domain 15: Monad
@@ -326,7 +383,7 @@ export const MAINNET_CHAINS: Record<number, ChainMetadata> = {
     name: 'Monad',
     vmType: VMType.EVM,
     chainId: 41454,
-    rpcUrl: getQuickNodeRPC('MONAD', process.env.QUICKNODE_RPC_URL || ''),
+    rpcEndpoints: getRpcEndpoints('MONAD', process.env.QUICKNODE_RPC_URL || ''),
     tokenSupport: {
       supportsUSDC: true,
       supportsUSYC: false
@@ -340,7 +397,10 @@ export const MAINNET_CHAINS: Record<number, ChainMetadata> = {
       ...COMMON_EVM_ADDRESSES,
       usdcToken: ''
     },
-    blockTime: 1000
+    blockTime: 1000,
+    confirmations: 3,
+    finality: FinalityTag.LATEST,
+    indexed: true
   },
 
   // Domain 16: Sei
@@ -349,7 +409,7 @@ export const MAINNET_CHAINS: Record<number, ChainMetadata> = {
     name: 'Sei',
     vmType: VMType.EVM,
     chainId: 1329,
-    rpcUrl: getQuickNodeRPC('SEI', process.env.QUICKNODE_RPC_URL || ''),
+    rpcEndpoints: getRpcEndpoints('SEI', process.env.QUICKNODE_RPC_URL || ''),
     tokenSupport: {
       supportsUSDC: true,
       supportsUSYC: false
@@ -363,7 +423,10 @@ export const MAINNET_CHAINS: Record<number, ChainMetadata> = {
       ...COMMON_EVM_ADDRESSES,
       usdcToken: ''
     },
-    blockTime: 400
+    blockTime: 400,
+    confirmations: 1, // instant finality
+    finality: FinalityTag.LATEST,
+    indexed: false // RPC timeouts
   },
 
   // Domain 17: BNB Smart Chain
@@ -372,7 +435,7 @@ export const MAINNET_CHAINS: Record<number, ChainMetadata> = {
     name: 'BNB Smart Chain',
     vmType: VMType.EVM,
     chainId: 56,
-    rpcUrl: getQuickNodeRPC('BNB', process.env.QUICKNODE_RPC_URL || 'https://bsc-dataseed.binance.org'),
+    rpcEndpoints: getRpcEndpoints('BNB', process.env.QUICKNODE_RPC_URL || 'https://bsc-dataseed.binance.org'),
     tokenSupport: {
       supportsUSDC: false,
       supportsUSYC: true  // BNB only supports USYC
@@ -386,7 +449,10 @@ export const MAINNET_CHAINS: Record<number, ChainMetadata> = {
       ...COMMON_EVM_ADDRESSES,
       usycToken: '' // USYC token on BNB
     },
-    blockTime: 3000
+    blockTime: 3000,
+    confirmations: 15,
+    finality: FinalityTag.LATEST,
+    indexed: false
   },
 
   // Domain 18: XDC
@@ -395,7 +461,7 @@ export const MAINNET_CHAINS: Record<number, ChainMetadata> = {
     name: 'XDC',
     vmType: VMType.EVM,
     chainId: 50,
-    rpcUrl: getQuickNodeRPC('XDC', process.env.QUICKNODE_RPC_URL || 'https://rpc.xdc.org'),
+    rpcEndpoints: getRpcEndpoints('XDC', process.env.QUICKNODE_RPC_URL || 'https://rpc.xdc.org'),
     tokenSupport: {
       supportsUSDC: true,
       supportsUSYC: false
@@ -409,7 +475,10 @@ export const MAINNET_CHAINS: Record<number, ChainMetadata> = {
       ...COMMON_EVM_ADDRESSES,
       usdcToken: ''
     },
-    blockTime: 2000
+    blockTime: 2000,
+    confirmations: 3,
+    finality: FinalityTag.LATEST,
+    indexed: false
   },
 
   // Domain 19: HyperEVM
@@ -418,7 +487,7 @@ export const MAINNET_CHAINS: Record<number, ChainMetadata> = {
     name: 'HyperEVM',
     vmType: VMType.EVM,
     chainId: 998,
-    rpcUrl: getQuickNodeRPC('HYPEREVM', process.env.QUICKNODE_RPC_URL || ''),
+    rpcEndpoints: getRpcEndpoints('HYPEREVM', process.env.QUICKNODE_RPC_URL || ''),
     tokenSupport: {
       supportsUSDC: true,
       supportsUSYC: false
@@ -432,7 +501,10 @@ export const MAINNET_CHAINS: Record<number, ChainMetadata> = {
       ...COMMON_EVM_ADDRESSES,
       usdcToken: ''
     },
-    blockTime: 2000
+    blockTime: 2000,
+    confirmations: 1,
+    finality: FinalityTag.LATEST,
+    indexed: true
   },
 
   // Domain 21: Ink
@@ -441,7 +513,7 @@ export const MAINNET_CHAINS: Record<number, ChainMetadata> = {
     name: 'Ink',
     vmType: VMType.EVM,
     chainId: 57073,
-    rpcUrl: getQuickNodeRPC('INK', process.env.QUICKNODE_RPC_URL || ''),
+    rpcEndpoints: getRpcEndpoints('INK', process.env.QUICKNODE_RPC_URL || ''),
     tokenSupport: {
       supportsUSDC: true,
       supportsUSYC: false
@@ -455,7 +527,11 @@ export const MAINNET_CHAINS: Record<number, ChainMetadata> = {
       ...COMMON_EVM_ADDRESSES,
       usdcToken: ''
     },
-    blockTime: 2000
+    blockTime: 2000,
+    estimateTimestamps: true,
+    confirmations: 10,
+    finality: FinalityTag.SAFE, // L2 block whose batch is posted to L1
+    indexed: true
   },
 
   // Domain 22: Plume
@@ -464,7 +540,7 @@ export const MAINNET_CHAINS: Record<number, ChainMetadata> = {
     name: 'Plume',
     vmType: VMType.EVM,
     chainId: 98865,
-    rpcUrl: getQuickNodeRPC('PLUME', process.env.QUICKNODE_RPC_URL || ''),
+    rpcEndpoints: getRpcEndpoints('PLUME', process.env.QUICKNODE_RPC_URL || ''),
     tokenSupport: {
       supportsUSDC: true,
       supportsUSYC: false
@@ -478,7 +554,10 @@ export const MAINNET_CHAINS: Record<number, ChainMetadata> = {
       ...COMMON_EVM_ADDRESSES,
       usdcToken: ''
     },
-    blockTime: 2000
+    blockTime: 2000,
+    confirmations: 10,
+    finality: FinalityTag.LATEST,
+    indexed: false
   },
 
   // Domain 25: Starknet
@@ -487,7 +566,7 @@ export const MAINNET_CHAINS: Record<number, ChainMetadata> = {
     name: 'Starknet',
     vmType: VMType.STARKNET,
     chainId: 'SN_MAIN',
-    rpcUrl: getQuickNodeRPC('STARKNET', process.env.QUICKNODE_RPC_URL || 'https://starknet-mainnet.public.blastapi.io'),
+    rpcEndpoints: getRpcEndpoints('STARKNET', process.env.QUICKNODE_RPC_URL || 'https://starknet-mainnet.public.blastapi.io'),
     tokenSupport: {
       supportsUSDC: true,
       supportsUSYC: false
@@ -502,7 +581,10 @@ export const MAINNET_CHAINS: Record<number, ChainMetadata> = {
       messageTransmitter: '0x02EBB5777B6dD8B26ea11D68Fdf1D2c85cD2099335328Be845a28c77A8AEf183',
       usdcToken: ''
     },
-    blockTime: 30000
+    blockTime: 30000,
+    confirmations: 1, // L2 blocks are final once accepted on L2
+    finality: FinalityTag.LATEST,
+    indexed: true
   },
 
   // Domain 26: Arc Testnet
@@ -511,7 +593,7 @@ export const MAINNET_CHAINS: Record<number, ChainMetadata> = {
     name: 'Arc Testnet',
     vmType: VMType.EVM,
     chainId: 11155111, // Sepolia testnet chain ID (Arc runs on Sepolia)
-    rpcUrl: getQuickNodeRPC('ARC_TESTNET', process.env.QUICKNODE_RPC_URL || 'https://sepolia.arc.gelato.digital'),
+    rpcEndpoints: getRpcEndpoints('ARC_TESTNET', process.env.QUICKNODE_RPC_URL || 'https://sepolia.arc.gelato.digital'),
     tokenSupport: {
       supportsUSDC: true,
       supportsUSYC: false
@@ -525,7 +607,10 @@ export const MAINNET_CHAINS: Record<number, ChainMetadata> = {
       ...COMMON_EVM_ADDRESSES,
       usdcToken: '0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238' // USDC on Sepolia
     },
-    blockTime: 12000
+    blockTime: 12000,
+    confirmations: 12,
+    finality: FinalityTag.LATEST,
+    indexed: false // Testnet
   }
 };
 
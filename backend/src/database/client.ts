@@ -3,14 +3,41 @@
  */
 
 import { pool } from '../config/database';
-import { Transfer, TransferStatus, TransferMode, TokenType } from '../types/transfer';
-import { TransferMetricsBucket, ChainMinuteMetrics } from '../types/metrics';
+import { MAINNET_CHAINS } from '../config/chains';
+import {
+  Transfer,
+  TransferStatus,
+  TransferMode,
+  TokenType,
+  TransferLookup,
+  TransferFilters,
+  TransferCursor,
+} from '../types/transfer';
+import {
+  TransferMetricsBucket,
+  ChainMinuteMetrics,
+  LatencyStats,
+  LatencyMetrics,
+  StageLatency,
+  FeeStats,
+  FeeMetrics,
+  FeeRevenuePoint,
+  Anomaly,
+  AnomalyType,
+  DetectedAnomaly,
+  RouteExpectedLatency,
+  TimeRange,
+} from '../types/metrics';
+import { IndexGap, IndexGapSummary, BurnRecord, MintRecord } from '../types/indexer';
+import { AddressActivity, AddressChainTotals } from '../types/address';
 import { createLogger } from '../utils/logger';
 
 const logger = createLogger('DatabaseClient');
 
 /**
  * Insert or update a transfer record
+ * Burn and mint halves can arrive in any order, so known values are never overwritten with NULL
+ * and a completed mint is never downgraded
  */
 export async function upsertTransfer(transfer: Transfer): Promise<void> {
   const query = `
@@ -21,13 +48,26 @@ export async function upsertTransfer(transfer: Transfer): Promise<void> {
       min_finality_threshold, max_fee, finality_threshold_executed
     ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20)
     ON CONFLICT (transfer_id) DO UPDATE SET
-      mint_tx_hash = EXCLUDED.mint_tx_hash,
-      iris_attested_at = EXCLUDED.iris_attested_at,
-      mint_at = EXCLUDED.mint_at,
-      status = EXCLUDED.status,
-      error_reason = EXCLUDED.error_reason,
-      message_body = EXCLUDED.message_body,
-      finality_threshold_executed = EXCLUDED.finality_threshold_executed,
+      burn_tx_hash = COALESCE(EXCLUDED.burn_tx_hash, cctp_transfers.burn_tx_hash),
+      mint_tx_hash = COALESCE(EXCLUDED.mint_tx_hash, cctp_transfers.mint_tx_hash),
+      burn_at = COALESCE(EXCLUDED.burn_at, cctp_transfers.burn_at),
+      iris_attested_at = COALESCE(EXCLUDED.iris_attested_at, cctp_transfers.iris_attested_at),
+      mint_at = COALESCE(EXCLUDED.mint_at, cctp_transfers.mint_at),
+      status = CASE
+        WHEN cctp_transfers.status = '${TransferStatus.MINT_COMPLETE}' THEN cctp_transfers.status
+        -- A re-indexed burn must not undo attestation progress
+        WHEN EXCLUDED.status = '${TransferStatus.MESSAGE_SENT}' THEN cctp_transfers.status
+        ELSE EXCLUDED.status
+      END,
+      -- The reason goes with the status: kept along with it, replaced when the status changes
+      error_reason = CASE
+        WHEN cctp_transfers.status = '${TransferStatus.MINT_COMPLETE}' OR EXCLUDED.status = '${TransferStatus.MESSAGE_SENT}'
+          THEN COALESCE(EXCLUDED.error_reason, cctp_transfers.error_reason)
+        ELSE EXCLUDED.error_reason
+      END,
+      nonce = COALESCE(EXCLUDED.nonce, cctp_transfers.nonce),
+      message_body = COALESCE(EXCLUDED.message_body, cctp_transfers.message_body),
+      finality_threshold_executed = COALESCE(EXCLUDED.finality_threshold_executed, cctp_transfers.finality_threshold_executed),
       updated_at = NOW()
   `;
 
@@ -63,6 +103,91 @@ export async function upsertTransfer(transfer: Transfer): Promise<void> {
   }
 }
 
+/**
+ * Build "($1, $2, ...), ($n+1, ...)" placeholders for a multi-row insert
+ */
+function buildValuesPlaceholders(rows: number, columns: number): string {
+  return Array.from({ length: rows }, (_, i) =>
+    `(${Array.from({ length: columns }, (_, j) => `$${i * columns + j + 1}`).join(', ')})`
+  ).join(', ');
+}
+
+/**
+ * Insert burns (duplicates ignored)
+ */
+export async function insertBurns(burns: BurnRecord[]): Promise<void> {
+  if (burns.length === 0) return;
+
+  const values = buildValuesPlaceholders(burns.length, 17);
+
+  const query = `
+    INSERT INTO burns (
+      chain_domain, destination_domain, amount, token, block_time, tx_hash, block_number, log_index,
+      nonce, transfer_id, min_finality_threshold, max_fee, mode,
+      depositor, mint_recipient, destination_caller, hook_data
+    ) VALUES ${values}
+    ON CONFLICT (chain_domain, tx_hash, log_index) DO NOTHING
+  `;
+
+  const params = burns.flatMap(b => [
+    b.chainDomain,
+    b.destinationDomain,
+    b.amount,
+    b.token,
+    b.blockTime,
+    b.txHash,
+    b.blockNumber.toString(),
+    b.logIndex,
+    b.nonce,
+    b.transferId,
+    b.minFinalityThreshold,
+    b.maxFee,
+    b.mode,
+    b.depositor,
+    b.mintRecipient,
+    b.destinationCaller,
+    b.hookData,
+  ]);
+
+  await pool.query(query, params);
+}
+
+/**
+ * Insert mints (duplicates ignored)
+ */
+export async function insertMints(mints: MintRecord[]): Promise<void> {
+  if (mints.length === 0) return;
+
+  const values = buildValuesPlaceholders(mints.length, 14);
+
+  const query = `
+    INSERT INTO mints (
+      chain_domain, source_domain, amount, token, mint_recipient, block_time, tx_hash, block_number, log_index,
+      nonce, transfer_id, mode, fee_collected, max_fee
+    ) VALUES ${values}
+    ON CONFLICT (chain_domain, tx_hash, log_index) DO NOTHING
+  `;
+
+  const params = mints.flatMap(m => [
+    m.chainDomain,
+    m.sourceDomain,
+    m.amount,
+    m.token,
+    m.mintRecipient,
+    m.blockTime,
+    m.txHash,
+    m.blockNumber.toString(),
+    m.logIndex,
+    m.nonce,
+    m.transferId,
+    m.mode,
+    m.feeCollected,
+    m.maxFee,
+  ]);
+
+  await pool.query(query, params);
+}
+
 /**
  * Get a transfer by ID
  */
@@ -80,6 +205,178 @@ export async function getTransferById(transferId: string): Promise<Transfer | nu
   }
 }
 
+/**
+ * Get the transfer on a route with the given nonce (known once attested or minted)
+ */
+export async function getTransferByNonce(sourceDomain: number, destinationDomain: number, nonce: string): Promise<Transfer | null> {
+  const query = `
+    SELECT * FROM cctp_transfers
+    WHERE source_domain = $1 AND destination_domain = $2 AND nonce = $3
+    LIMIT 1
+  `;
+
+  try {
+    const result = await pool.query(query, [sourceDomain, destinationDomain, nonce]);
+    if (result.rows.length === 0) return null;
+
+    return mapRowToTransfer(result.rows[0]);
+  } catch (error) {
+    logger.error('Failed to get transfer by nonce', { sourceDomain, destinationDomain, nonce, error });
+    throw error;
+  }
+}
+
+/**
+ * Link mints indexed before their transfer's nonce was known (burn not yet indexed or attested)
+ * to the transfer on the same route with that nonce, and record the mint half on the transfer
+ * Returns the number of transfers completed
+ */
+export async function linkUnlinkedMints(): Promise<number> {
+  const query = `
+    WITH linked AS (
+      UPDATE mints m SET transfer_id = t.transfer_id
+      FROM cctp_transfers t
+      WHERE m.transfer_id IS NULL AND m.nonce IS NOT NULL
+        AND t.source_domain = m.source_domain AND t.destination_domain = m.chain_domain AND t.nonce = m.nonce
+      RETURNING m.transfer_id, m.tx_hash, m.block_time
+    )
+    UPDATE cctp_transfers t SET
+      mint_tx_hash = COALESCE(t.mint_tx_hash, linked.tx_hash),
+      mint_at = COALESCE(t.mint_at, linked.block_time),
+      status = '${TransferStatus.MINT_COMPLETE}',
+      error_reason = NULL,
+      updated_at = NOW()
+    FROM linked
+    WHERE t.transfer_id = linked.transfer_id
+  `;
+
+  try {
+    const result = await pool.query(query);
+    return result.rowCount ?? 0;
+  } catch (error) {
+    logger.error('Failed to link unlinked mints', { error });
+    throw error;
+  }
+}
+
+/**
+ * Find burns and mints emitted by a transaction and resolve the transfers they belong to
+ * Mints without a transfer ID (indexed before their burn) are matched to a burned transfer by route and nonce
+ */
+export async function getTransfersByTxHash(txHash: string): Promise<TransferLookup[]> {
+  const query = `
+    WITH events AS (
+      SELECT 'BURN' as event, chain_domain, chain_domain as source_domain, destination_domain,
+        amount, log_index, block_time, transfer_id, nonce
+      FROM burns
+      WHERE tx_hash = $1
+      UNION ALL
+      SELECT 'MINT' as event, chain_domain, source_domain, chain_domain as destination_domain,
+        amount, log_index, block_time, transfer_id, nonce
+      FROM mints
+      WHERE tx_hash = $1
+    )
+    SELECT e.*, t.transfer_id as linked_transfer_id
+    FROM events e
+    LEFT JOIN LATERAL (
+      SELECT transfer_id
+      FROM cctp_transfers
+      WHERE transfer_id = e.transfer_id
+        OR (
+          e.transfer_id IS NULL AND e.event = 'MINT' AND e.nonce IS NOT NULL
+          AND source_domain = e.source_domain AND destination_domain = e.destination_domain AND nonce = e.nonce
+        )
+      LIMIT 1
+    ) t ON TRUE
+    ORDER BY e.chain_domain, e.log_index
+  `;
+
+  try {
+    const result = await pool.query(query, [txHash]);
+    const linkedIds = result.rows.map(row => row.linked_transfer_id).filter((id): id is string => id !== null);
+
+    const transfers = new Map<string, Transfer>();
+    if (linkedIds.length > 0) {
+      const transferResult = await pool.query('SELECT * FROM cctp_transfers WHERE transfer_id = ANY($1)', [linkedIds]);
+      for (const row of transferResult.rows) {
+        transfers.set(row.transfer_id, mapRowToTransfer(row));
+      }
+    }
+
+    return result.rows.map(row => {
+      const transfer = row.linked_transfer_id ? transfers.get(row.linked_transfer_id) ?? null : null;
+      // A mint completes its transfer even if the stored transfer has not been linked to it yet
+      const status = row.event === 'MINT' ? TransferStatus.MINT_COMPLETE : transfer?.status ?? TransferStatus.MESSAGE_SENT;
+      return {
+        event: row.event,
+        chainDomain: row.chain_domain,
+        sourceDomain: row.source_domain,
+        destinationDomain: row.destination_domain,
+        amount: row.amount,
+        logIndex: row.log_index,
+        blockTime: row.block_time,
+        status,
+        transfer,
+      };
+    });
+  } catch (error) {
+    logger.error('Failed to get transfers by tx hash', { txHash, error });
+    throw error;
+  }
+}
+
+/**
+ * List transfers matching `filters`, newest first by burn time (mint time if the burn was not indexed)
+ * Keyset pagination: pass the cursor of the last transfer of the previous page as `after`
+ */
+export async function getTransfers(
+  filters: TransferFilters,
+  limit: number,
+  after?: TransferCursor
+): Promise<Array<{ transfer: Transfer; cursor: TransferCursor }>> {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+  const addCondition = (sql: (placeholder: string) => string, value: unknown) => {
+    params.push(value);
+    conditions.push(sql(`$${params.length}`));
+  };
+
+  if (filters.sourceDomain !== undefined) addCondition(p => `source_domain = ${p}`, filters.sourceDomain);
+  if (filters.destinationDomain !== undefined) addCondition(p => `destination_domain = ${p}`, filters.destinationDomain);
+  if (filters.status !== undefined) addCondition(p => `status = ${p}`, filters.status);
+  if (filters.mode !== undefined) addCondition(p => `mode = ${p}`, filters.mode);
+  if (filters.minAmount !== undefined) addCondition(p => `amount >= ${p}::NUMERIC`, filters.minAmount);
+  if (filters.maxAmount !== undefined) addCondition(p => `amount <= ${p}::NUMERIC`, filters.maxAmount);
+  if (filters.from !== undefined) addCondition(p => `COALESCE(burn_at, mint_at) >= ${p}`, filters.from);
+  if (filters.to !== undefined) addCondition(p => `COALESCE(burn_at, mint_at) < ${p}`, filters.to);
+
+  if (after) {
+    params.push(after.sortTime, after.transferId);
+    conditions.push(`(COALESCE(burn_at, mint_at), transfer_id) < ($${params.length - 1}, $${params.length})`);
+  }
+
+  params.push(limit);
+  const query = `
+    SELECT *, COALESCE(burn_at, mint_at) as sort_time
+    FROM cctp_transfers
+    WHERE COALESCE(burn_at, mint_at) IS NOT NULL
+      ${conditions.map(condition => `AND ${condition}`).join('\n      ')}
+    ORDER BY COALESCE(burn_at, mint_at) DESC, transfer_id DESC
+    LIMIT $${params.length}
+  `;
+
+  try {
+    const result = await pool.query(query, params);
+    return result.rows.map(row => ({
+      transfer: mapRowToTransfer(row),
+      cursor: { sortTime: row.sort_time, transferId: row.transfer_id },
+    }));
+  } catch (error) {
+    logger.error('Failed to get transfers', { filters, error });
+    throw error;
+  }
+}
+
 /**
  * Get transfers by status
  */
@@ -118,6 +415,195 @@ export async function getPendingTransfers(): Promise<Transfer[]> {
   }
 }
 
+/**
+ * Burned transfers still waiting for their attestation, least recently polled first
+ * A transfer Iris had no message for waits `backoffSeconds * 2^(misses - 1)` (capped at
+ * `maxBackoffSeconds`) before it is polled again
+ */
+export async function getTransfersAwaitingAttestation(
+  limit: number = 50,
+  backoffSeconds: number = 10,
+  maxBackoffSeconds: number = 1800
+): Promise<Transfer[]> {
+  const query = `
+    SELECT * FROM cctp_transfers
+    WHERE status IN ($1, $2) AND burn_tx_hash IS NOT NULL
+      AND (
+        iris_polled_at IS NULL
+        OR iris_polled_at <= NOW() - LEAST($4 * POWER(2, GREATEST(iris_poll_misses - 1, 0)), $5) * INTERVAL '1 second'
+      )
+    ORDER BY iris_polled_at ASC NULLS FIRST, burn_at ASC
+    LIMIT $3
+  `;
+
+  try {
+    const result = await pool.query(query, [
+      TransferStatus.MESSAGE_SENT,
+      TransferStatus.ATTESTATION_PENDING,
+      limit,
+      backoffSeconds,
+      maxBackoffSeconds
+    ]);
+    return result.rows.map(mapRowToTransfer);
+  } catch (error) {
+    logger.error('Failed to get transfers awaiting attestation', error);
+    throw error;
+  }
+}
+
+/**
+ * Record an Iris poll of a transfer; polls that found no message count as misses
+ * and back the transfer off (see getTransfersAwaitingAttestation)
+ */
+export async function recordAttestationPoll(transferId: string, found: boolean): Promise<void> {
+  const query = `
+    UPDATE cctp_transfers SET
+      iris_polled_at = NOW(),
+      iris_poll_misses = CASE WHEN $2 THEN 0 ELSE iris_poll_misses + 1 END
+    WHERE transfer_id = $1
+  `;
+
+  try {
+    await pool.query(query, [transferId, found]);
+  } catch (error) {
+    logger.error('Failed to record attestation poll', { transferId, error });
+    throw error;
+  }
+}
+
+/**
+ * Record the attestation state reported by Iris
+ * Only applies while the transfer is still awaiting attestation, so a mint indexed
+ * in the meantime is never downgraded; the first attestation time is kept
+ */
+export async function updateTransferAttestation(
+  transferId: string,
+  update: {
+    status: TransferStatus.ATTESTATION_PENDING | TransferStatus.ATTESTATION_COMPLETE;
+    nonce: string | null;
+    finalityThresholdExecuted: number | null;
+    attestedAt: Date | null;
+    expirationBlock: string | null;
+  }
+): Promise<boolean> {
+  const query = `
+    UPDATE cctp_transfers SET
+      status = $2,
+      nonce = COALESCE($3, nonce),
+      finality_threshold_executed = COALESCE($4, finality_threshold_executed),
+      iris_attested_at = COALESCE(iris_attested_at, $5),
+      expiration_block = COALESCE($8, expiration_block),
+      updated_at = NOW()
+    WHERE transfer_id = $1 AND status IN ($6, $7)
+  `;
+
+  try {
+    const result = await pool.query(query, [
+      transferId,
+      update.status,
+      update.nonce,
+      update.finalityThresholdExecuted,
+      update.attestedAt,
+      TransferStatus.MESSAGE_SENT,
+      TransferStatus.ATTESTATION_PENDING,
+      update.expirationBlock
+    ]);
+    return (result.rowCount ?? 0) > 0;
+  } catch (error) {
+    logger.error('Failed to update transfer attestation', { transferId, error });
+    throw error;
+  }
+}
+
+/**
+ * Mark unminted transfers EXPIRED once their destination is indexed past the expiration block
+ * Skipped while the destination has open index gaps below that block or an unlinked mint with the same nonce,
+ * since the mint could be in either
+ */
+export async function expireTransfers(): Promise<Transfer[]> {
+  const query = `
+    UPDATE cctp_transfers t SET
+      status = $1,
+      error_reason = 'Not received before destination block ' || t.expiration_block,
+      updated_at = NOW()
+    FROM chain_checkpoints c
+    WHERE c.chain_domain = t.destination_domain
+      AND c.last_processed_block >= t.expiration_block
+      AND t.expiration_block > 0
+      AND t.mint_at IS NULL
+      AND t.status NOT IN ($1, $2)
+      AND NOT EXISTS (
+        SELECT 1 FROM index_gaps g
+        WHERE g.chain_domain = t.destination_domain
+          AND g.resolved_at IS NULL
+          AND g.from_block < t.expiration_block
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM mints m
+        WHERE m.chain_domain = t.destination_domain
+          AND m.source_domain = t.source_domain
+          AND m.nonce = t.nonce
+      )
+    RETURNING t.*
+  `;
+
+  try {
+    const result = await pool.query(query, [TransferStatus.EXPIRED, TransferStatus.MINT_COMPLETE]);
+    return result.rows.map(mapRowToTransfer);
+  } catch (error) {
+    logger.error('Failed to expire transfers', error);
+    throw error;
+  }
+}
+
+/**
+ * Expired transfers eligible for a re-attestation request, oldest first
+ * Requires a nonce; at most `maxAttempts` requests per transfer, `retryAfterMinutes` apart
+ */
+export async function getTransfersToReattest(limit: number, maxAttempts: number, retryAfterMinutes: number): Promise<Transfer[]> {
+  const query = `
+    SELECT * FROM cctp_transfers
+    WHERE status = $1
+      AND nonce IS NOT NULL
+      AND reattest_count < $2
+      AND (reattest_requested_at IS NULL OR reattest_requested_at < NOW() - $3 * INTERVAL '1 minute')
+    ORDER BY burn_at ASC
+    LIMIT $4
+  `;
+
+  try {
+    const result = await pool.query(query, [TransferStatus.EXPIRED, maxAttempts, retryAfterMinutes, limit]);
+    return result.rows.map(mapRowToTransfer);
+  } catch (error) {
+    logger.error('Failed to get transfers to re-attest', error);
+    throw error;
+  }
+}
+
+/**
+ * Record a re-attestation request for an expired transfer
+ * When Iris accepted it, the transfer goes back to ATTESTATION_PENDING so the new attestation is polled
+ */
+export async function recordReattestRequest(transferId: string, accepted: boolean): Promise<void> {
+  const query = `
+    UPDATE cctp_transfers SET
+      status = CASE WHEN $2 THEN $3 ELSE status END,
+      expiration_block = CASE WHEN $2 THEN NULL ELSE expiration_block END,
+      error_reason = CASE WHEN $2 THEN NULL ELSE error_reason END,
+      reattest_requested_at = NOW(),
+      reattest_count = reattest_count + 1,
+      updated_at = NOW()
+    WHERE transfer_id = $1 AND status = $4
+  `;
+
+  try {
+    await pool.query(query, [transferId, accepted, TransferStatus.ATTESTATION_PENDING, TransferStatus.EXPIRED]);
+  } catch (error) {
+    logger.error('Failed to record re-attestation request', { transferId, error });
+    throw error;
+  }
+}
+
 /**
  * Upsert transfer metrics using the database function
  */
@@ -184,9 +670,9 @@ export async function getMetricsInRange(
       tokenType: row.token_type,
       transferCount: row.transfer_count,
       volumeTotal: row.volume_total,
-      sumBurnToMintMs: row.sum_burn_to_mint_ms,
-      sumBurnToIrisMs: row.sum_burn_to_iris_ms,
-      sumIrisToMintMs: row.sum_iris_to_mint_ms,
+      sumBurnToMintMs: Number(row.sum_burn_to_mint_ms), // BIGINT comes back as string
+      sumBurnToIrisMs: Number(row.sum_burn_to_iris_ms),
+      sumIrisToMintMs: Number(row.sum_iris_to_mint_ms),
       errorCount: row.error_count,
       incompleteCount: row.incomplete_count
     }));
@@ -197,103 +683,265 @@ export async function getMetricsInRange(
 }
 
 /**
- * Get anomalies (transfers pending too long, errors, etc.)
+ * Get p95 burn -> mint latency per route and mode for transfers minted in the lookback window
+ * Routes with fewer than `minSamples` transfers are left out
  */
-export async function getAnomalies(thresholdMinutes: number = 30): Promise<Transfer[]> {
+export async function getRouteExpectedLatencies(lookbackMinutes: number, minSamples: number): Promise<RouteExpectedLatency[]> {
+  const query = `
+    SELECT
+      source_domain,
+      destination_domain,
+      mode,
+      COUNT(*) as samples,
+      percentile_cont(0.95) WITHIN GROUP (ORDER BY EXTRACT(EPOCH FROM (mint_at - burn_at)) * 1000) as p95_ms
+    FROM cctp_transfers
+    WHERE mint_at >= NOW() - $1 * INTERVAL '1 minute'
+      AND burn_at IS NOT NULL
+      AND mint_at >= burn_at
+    GROUP BY source_domain, destination_domain, mode
+    HAVING COUNT(*) >= $2
+  `;
+
+  try {
+    const result = await pool.query(query, [lookbackMinutes, minSamples]);
+    return result.rows.map(row => ({
+      sourceDomain: row.source_domain,
+      destinationDomain: row.destination_domain,
+      mode: row.mode as TransferMode,
+      samples: parseInt(row.samples),
+      p95Ms: Math.round(Number(row.p95_ms)),
+    }));
+  } catch (error) {
+    logger.error('Failed to get route expected latencies', error);
+    throw error;
+  }
+}
+
+/**
+ * Get burned transfers that have not minted yet, for destinations in `destinationDomains`
+ */
+export async function getUnmintedTransfers(destinationDomains: number[], olderThanMinutes: number): Promise<Transfer[]> {
   const query = `
     SELECT * FROM cctp_transfers
-    WHERE (
-      (status IN ($1, $2, $3) AND burn_at < NOW() - INTERVAL '${thresholdMinutes} minutes')
-      OR status = $4
-    )
-    ORDER BY burn_at DESC
-    LIMIT 100
+    WHERE mint_at IS NULL
+      AND burn_at IS NOT NULL
+      AND status <> $1
+      AND destination_domain = ANY($2)
+      AND burn_at < NOW() - $3 * INTERVAL '1 minute'
+    ORDER BY burn_at ASC
   `;
 
   try {
     const result = await pool.query(query, [
-      TransferStatus.MESSAGE_SENT,
-      TransferStatus.ATTESTATION_PENDING,
-      TransferStatus.ATTESTATION_COMPLETE,
-      TransferStatus.ERROR
+      TransferStatus.MINT_COMPLETE,
+      destinationDomains,
+      olderThanMinutes,
     ]);
     return result.rows.map(mapRowToTransfer);
+  } catch (error) {
+    logger.error('Failed to get unminted transfers', error);
+    throw error;
+  }
+}
+
+/**
+ * Store the anomalies found in a detection pass and resolve open anomalies that were not found again
+ * Detection time is kept while a transfer stays flagged with the same type
+ */
+export async function syncAnomalies(anomalies: DetectedAnomaly[]): Promise<{ opened: number; resolved: number }> {
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    let opened = 0;
+    if (anomalies.length > 0) {
+      const values = buildValuesPlaceholders(anomalies.length, 4);
+      const upsert = await client.query(
+        `INSERT INTO transfer_anomalies AS a (transfer_id, type, expected_latency_ms, description)
+        VALUES ${values}
+        ON CONFLICT (transfer_id) DO UPDATE SET
+          detected_at = CASE
+            WHEN a.type <> EXCLUDED.type OR a.resolved_at IS NOT NULL THEN NOW()
+            ELSE a.detected_at
+          END,
+          type = EXCLUDED.type,
+          expected_latency_ms = EXCLUDED.expected_latency_ms,
+          description = EXCLUDED.description,
+          updated_at = NOW(),
+          resolved_at = NULL
+        RETURNING (xmax = 0) as inserted`,
+        anomalies.flatMap(a => [a.transferId, a.type, a.expectedLatencyMs, a.description])
+      );
+      opened = upsert.rows.filter(row => row.inserted).length;
+    }
+
+    const resolved = await client.query(
+      `UPDATE transfer_anomalies
+      SET resolved_at = NOW(), updated_at = NOW()
+      WHERE resolved_at IS NULL
+        AND NOT (transfer_id = ANY($1))`,
+      [anomalies.map(a => a.transferId)]
+    );
+
+    await client.query('COMMIT');
+    return { opened, resolved: resolved.rowCount || 0 };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    logger.error('Failed to sync anomalies', error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Get open anomalies (stuck transfers), oldest burn first
+ */
+export async function getAnomalies(type?: AnomalyType, limit: number = 100): Promise<Anomaly[]> {
+  const query = `
+    SELECT
+      a.transfer_id, a.type, a.expected_latency_ms, a.description, a.detected_at,
+      t.source_domain, t.destination_domain, t.mode, t.amount, t.status, t.burn_tx_hash, t.burn_at,
+      EXTRACT(EPOCH FROM (NOW() - t.burn_at)) * 1000 as age_ms
+    FROM transfer_anomalies a
+    JOIN cctp_transfers t ON t.transfer_id = a.transfer_id
+    WHERE a.resolved_at IS NULL
+      AND ($1::TEXT IS NULL OR a.type = $1)
+    ORDER BY t.burn_at ASC
+    LIMIT $2
+  `;
+
+  try {
+    const result = await pool.query(query, [type ?? null, limit]);
+    return result.rows.map(row => ({
+      transferId: row.transfer_id,
+      type: row.type as AnomalyType,
+      expectedLatencyMs: Number(row.expected_latency_ms),
+      description: row.description,
+      sourceDomain: row.source_domain,
+      destinationDomain: row.destination_domain,
+      mode: row.mode as TransferMode,
+      amount: row.amount,
+      status: row.status as TransferStatus,
+      burnTxHash: row.burn_tx_hash,
+      burnAt: row.burn_at,
+      ageMs: Math.round(Number(row.age_ms)),
+      detectedAt: row.detected_at,
+    }));
   } catch (error) {
     logger.error('Failed to get anomalies', error);
     throw error;
   }
 }
 
+/**
+ * Count open anomalies per type
+ */
+export async function getAnomalyCounts(): Promise<Record<AnomalyType, number>> {
+  const query = `
+    SELECT type, COUNT(*) as count
+    FROM transfer_anomalies
+    WHERE resolved_at IS NULL
+    GROUP BY type
+  `;
+
+  try {
+    const result = await pool.query(query);
+    const counts: Record<AnomalyType, number> = {
+      PENDING_TOO_LONG: 0,
+      NO_ATTESTATION: 0,
+      RECEIVE_ERROR: 0,
+      NOT_MINTED: 0,
+      EXPIRED: 0,
+    };
+    for (const row of result.rows) {
+      counts[row.type as AnomalyType] = parseInt(row.count);
+    }
+    return counts;
+  } catch (error) {
+    logger.error('Failed to get anomaly counts', error);
+    throw error;
+  }
+}
+
+/**
+ * Bucket width in seconds when splitting a time range into `buckets` equal parts
+ */
+function bucketSeconds(range: TimeRange, buckets: number): number {
+  return (range.to.getTime() - range.from.getTime()) / 1000 / buckets;
+}
+
 /**
  * Get per-chain metrics for a specific time period
  * Uses burns and mints tables from POC indexer
  */
-export async function getChainMinuteMetrics(intervalMinutes: number = 1440): Promise<ChainMinuteMetrics[]> {
+export async function getChainMinuteMetrics(range: TimeRange, mode?: TransferMode): Promise<ChainMinuteMetrics[]> {
   const query = `
     WITH chain_out AS (
       SELECT 
         chain_domain,
-        SUM(amount) as total_amount
+        SUM(amount) as total_amount,
+        SUM(amount) FILTER (WHERE mode = '${TransferMode.FAST}') as fast_amount
       FROM burns
-      WHERE block_time >= NOW() - INTERVAL '${intervalMinutes} minutes'
+      WHERE block_time >= $2
+        AND block_time < $3
         AND token = 'USDC'
+        AND ($1::TEXT IS NULL OR mode = $1)
       GROUP BY chain_domain
     ),
     chain_in AS (
       SELECT 
         chain_domain,
-        SUM(amount) as total_amount
+        SUM(amount) as total_amount,
+        SUM(amount) FILTER (WHERE mode = '${TransferMode.FAST}') as fast_amount
       FROM mints
-      WHERE block_time >= NOW() - INTERVAL '${intervalMinutes} minutes'
+      WHERE block_time >= $2
+        AND block_time < $3
         AND token = 'USDC'
+        AND ($1::TEXT IS NULL OR mode = $1)
       GROUP BY chain_domain
     ),
     chain_stats AS (
       SELECT 
         COALESCE(out.chain_domain, in_stats.chain_domain) as domain,
         COALESCE(out.total_amount, 0) as out_usdc,
-        COALESCE(in_stats.total_amount, 0) as in_usdc
+        COALESCE(out.fast_amount, 0) as out_fast_usdc,
+        COALESCE(in_stats.total_amount, 0) as in_usdc,
+        COALESCE(in_stats.fast_amount, 0) as in_fast_usdc
       FROM chain_out out
       FULL OUTER JOIN chain_in in_stats ON out.chain_domain = in_stats.chain_domain
     )
     SELECT 
       cs.domain,
       cs.out_usdc::TEXT as outgoing_usdc,
+      cs.out_fast_usdc::TEXT as outgoing_fast_usdc,
       '0'::TEXT as outgoing_usyc,
       cs.in_usdc::TEXT as incoming_usdc,
+      cs.in_fast_usdc::TEXT as incoming_fast_usdc,
       '0'::TEXT as incoming_usyc
     FROM chain_stats cs
     ORDER BY cs.domain
   `;
 
   try {
-    const result = await pool.query(query);
+    const result = await pool.query(query, [mode ?? null, range.from, range.to]);
     const chainMap = new Map<number, ChainMinuteMetrics>();
 
-    // Initialize all supported chains with zeros (14 mainnet chains only)
-    const allChains = [
-      { domain: 0, name: 'Ethereum' },
-      { domain: 1, name: 'Avalanche' },
-      { domain: 2, name: 'OP Mainnet' },
-      { domain: 3, name: 'Arbitrum' },
-      { domain: 6, name: 'Base' },
-      { domain: 7, name: 'Polygon' },
-      { domain: 10, name: 'Unichain' },
-      { domain: 11, name: 'Linea' },
-      { domain: 13, name: 'Sonic' },
-      { domain: 14, name: 'World Chain' },
-      { domain: 15, name: 'Monad' },
-      { domain: 19, name: 'HyperEVM' },
-      { domain: 21, name: 'Ink' },
-    ];
+    // Initialize every indexed mainnet chain with zeros
+    const allChains = Object.values(MAINNET_CHAINS)
+      .filter(chain => chain.indexed)
+      .map(chain => ({ domain: chain.domainId, name: chain.name }));
 
     allChains.forEach(chain => {
       chainMap.set(chain.domain, {
         domain: chain.domain,
         name: chain.name,
         incomingUSDC: '0',
+        incomingFastUSDC: '0',
         incomingUSYC: '0', // Always 0, USYC not supported
         outgoingUSDC: '0',
+        outgoingFastUSDC: '0',
         outgoingUSYC: '0', // Always 0, USYC not supported
       });
     });
@@ -303,8 +951,10 @@ export async function getChainMinuteMetrics(intervalMinutes: number = 1440): Pro
       const existing = chainMap.get(row.domain);
       if (existing) {
         existing.incomingUSDC = row.incoming_usdc || '0';
+        existing.incomingFastUSDC = row.incoming_fast_usdc || '0';
         existing.incomingUSYC = '0'; // USYC not supported
         existing.outgoingUSDC = row.outgoing_usdc || '0';
+        existing.outgoingFastUSDC = row.outgoing_fast_usdc || '0';
         existing.outgoingUSYC = '0'; // USYC not supported
       }
     });
@@ -420,35 +1070,57 @@ export async function getTotalInVolume(): Promise<{ usdc: string; usyc: string;
 
 /**
  * Get total volume (IN + OUT) for a specific time period
+ * `finalized` only counts rows at or below each chain's finalized block; the rest is provisional
  */
-export async function getTotalVolume(intervalMinutes: number): Promise<{ in: string; out: string; total: string }> {
+export async function getTotalVolume(range: TimeRange): Promise<{
+  in: string;
+  out: string;
+  total: string;
+  finalized: { in: string; out: string; total: string };
+}> {
   const query = `
     WITH total_out AS (
-      SELECT COALESCE(SUM(amount), 0)::TEXT as out
-      FROM burns
-      WHERE block_time >= NOW() - INTERVAL '${intervalMinutes} minutes'
-        AND token = 'USDC'
+      SELECT
+        COALESCE(SUM(b.amount), 0) as out_amount,
+        COALESCE(SUM(b.amount) FILTER (WHERE b.block_number <= cp.finalized_block), 0) as out_finalized
+      FROM burns b
+      LEFT JOIN chain_checkpoints cp ON cp.chain_domain = b.chain_domain
+      WHERE b.block_time >= $1
+        AND b.block_time < $2
+        AND b.token = 'USDC'
     ),
     total_in AS (
-      SELECT COALESCE(SUM(amount), 0)::TEXT as in_amount
-      FROM mints
-      WHERE block_time >= NOW() - INTERVAL '${intervalMinutes} minutes'
-        AND token = 'USDC'
+      SELECT
+        COALESCE(SUM(m.amount), 0) as in_amount,
+        COALESCE(SUM(m.amount) FILTER (WHERE m.block_number <= cp.finalized_block), 0) as in_finalized
+      FROM mints m
+      LEFT JOIN chain_checkpoints cp ON cp.chain_domain = m.chain_domain
+      WHERE m.block_time >= $1
+        AND m.block_time < $2
+        AND m.token = 'USDC'
     )
     SELECT 
-      total_in.in_amount as in_volume,
-      total_out.out as out_volume,
-      (total_in.in_amount::NUMERIC + total_out.out::NUMERIC)::TEXT as total_volume
+      total_in.in_amount::TEXT as in_volume,
+      total_out.out_amount::TEXT as out_volume,
+      (total_in.in_amount + total_out.out_amount)::TEXT as total_volume,
+      total_in.in_finalized::TEXT as in_finalized,
+      total_out.out_finalized::TEXT as out_finalized,
+      (total_in.in_finalized + total_out.out_finalized)::TEXT as total_finalized
     FROM total_in, total_out
   `;
 
   try {
-    const result = await pool.query(query);
+    const result = await pool.query(query, [range.from, range.to]);
     const row = result.rows[0];
     return {
       in: row.in_volume || '0',
       out: row.out_volume || '0',
       total: row.total_volume || '0',
+      finalized: {
+        in: row.in_finalized || '0',
+        out: row.out_finalized || '0',
+        total: row.total_finalized || '0',
+      },
     };
   } catch (error) {
     logger.error('Failed to get total volume', error);
@@ -456,28 +1128,202 @@ export async function getTotalVolume(intervalMinutes: number): Promise<{ in: str
   }
 }
 
+// Latency stage -> column of the `settled` CTE in getLatencyMetrics
+const LATENCY_STAGES: Record<keyof StageLatency, string> = {
+  burnToMint: 'burn_to_mint_ms',
+  burnToIris: 'burn_to_iris_ms',
+  irisToMint: 'iris_to_mint_ms',
+};
+
+/**
+ * Get settlement latency (avg, p50, p95, p99) per mode and per route for transfers minted in the period
+ * Iris stages only count transfers whose attestation was seen between burn and mint
+ */
+export async function getLatencyMetrics(range: TimeRange): Promise<LatencyMetrics> {
+  const aggregates = Object.values(LATENCY_STAGES).map(column => `
+      COUNT(${column}) as ${column}_count,
+      AVG(${column}) as ${column}_avg,
+      percentile_cont(0.5) WITHIN GROUP (ORDER BY ${column}) as ${column}_p50,
+      percentile_cont(0.95) WITHIN GROUP (ORDER BY ${column}) as ${column}_p95,
+      percentile_cont(0.99) WITHIN GROUP (ORDER BY ${column}) as ${column}_p99`).join(',');
+
+  const query = `
+    WITH settled AS (
+      SELECT
+        source_domain,
+        destination_domain,
+        mode,
+        EXTRACT(EPOCH FROM (mint_at - burn_at)) * 1000 as burn_to_mint_ms,
+        CASE WHEN iris_attested_at BETWEEN burn_at AND mint_at
+          THEN EXTRACT(EPOCH FROM (iris_attested_at - burn_at)) * 1000 END as burn_to_iris_ms,
+        CASE WHEN iris_attested_at BETWEEN burn_at AND mint_at
+          THEN EXTRACT(EPOCH FROM (mint_at - iris_attested_at)) * 1000 END as iris_to_mint_ms
+      FROM cctp_transfers
+      WHERE mint_at >= $1
+        AND mint_at < $2
+        AND burn_at IS NOT NULL
+        AND mint_at >= burn_at
+    )
+    SELECT
+      source_domain,
+      destination_domain,
+      mode,
+      GROUPING(source_domain) = 1 as is_mode_total,${aggregates}
+    FROM settled
+    GROUP BY GROUPING SETS ((mode), (source_domain, destination_domain, mode))
+    ORDER BY COUNT(*) DESC
+  `;
+
+  try {
+    const result = await pool.query(query, [range.from, range.to]);
+    const byMode: LatencyMetrics['byMode'] = [];
+    const byRoute: LatencyMetrics['byRoute'] = [];
+
+    for (const row of result.rows) {
+      const stages = mapRowToStageLatency(row);
+      if (row.is_mode_total) {
+        byMode.push({ mode: row.mode as TransferMode, ...stages });
+      } else {
+        byRoute.push({
+          fromChain: row.source_domain,
+          toChain: row.destination_domain,
+          mode: row.mode as TransferMode,
+          ...stages,
+        });
+      }
+    }
+
+    return { byMode, byRoute };
+  } catch (error) {
+    logger.error('Failed to get latency metrics', error);
+    throw error;
+  }
+}
+
+/**
+ * Get fees collected on mints in the period, per destination chain and per route/mode
+ * Effective bps compare the fee with the burned amount (minted amount + fee);
+ * max fee bps only count mints whose BurnMessageV2 was decoded
+ */
+export async function getFeeMetrics(range: TimeRange): Promise<FeeMetrics> {
+  const query = `
+    SELECT
+      chain_domain,
+      source_domain,
+      mode,
+      GROUPING(source_domain) = 1 as is_destination_total,
+      COUNT(*) as mint_count,
+      COALESCE(SUM(fee_collected), 0)::TEXT as fee_total,
+      COALESCE(SUM(amount + fee_collected), 0)::TEXT as volume,
+      SUM(fee_collected) * 10000 / NULLIF(SUM(amount + fee_collected), 0) as effective_fee_bps,
+      SUM(max_fee) * 10000 / NULLIF(SUM(amount + fee_collected) FILTER (WHERE max_fee IS NOT NULL), 0) as max_fee_bps
+    FROM mints
+    WHERE block_time >= $1
+      AND block_time < $2
+      AND token = 'USDC'
+    GROUP BY GROUPING SETS ((chain_domain), (source_domain, chain_domain, mode))
+    ORDER BY SUM(fee_collected) DESC
+  `;
+
+  try {
+    const result = await pool.query(query, [range.from, range.to]);
+    const byDestination: FeeMetrics['byDestination'] = [];
+    const byRoute: FeeMetrics['byRoute'] = [];
+
+    for (const row of result.rows) {
+      const stats = mapRowToFeeStats(row);
+      if (row.is_destination_total) {
+        byDestination.push({ chainDomain: row.chain_domain, ...stats });
+      } else {
+        byRoute.push({
+          fromChain: row.source_domain,
+          toChain: row.chain_domain,
+          mode: row.mode as TransferMode | null,
+          ...stats,
+        });
+      }
+    }
+
+    return { byDestination, byRoute };
+  } catch (error) {
+    logger.error('Failed to get fee metrics', error);
+    throw error;
+  }
+}
+
+/**
+ * Get fees collected on mints by time buckets, split by mode (time series data)
+ * Mints with an unknown mode only count towards the total
+ */
+export async function getFeeRevenueByPeriod(range: TimeRange, buckets: number = 20): Promise<FeeRevenuePoint[]> {
+  const bucketSize = bucketSeconds(range, buckets);
+
+  const query = `
+    WITH time_buckets AS (
+      SELECT generate_series(
+        $1::TIMESTAMPTZ,
+        $2::TIMESTAMPTZ - $3 * INTERVAL '1 second',
+        $3 * INTERVAL '1 second'
+      ) as bucket_start
+    )
+    SELECT 
+      DATE_TRUNC('minute', tb.bucket_start) as time,
+      COALESCE(SUM(m.fee_collected) FILTER (WHERE m.mode = '${TransferMode.FAST}'), 0)::TEXT as fast_fees,
+      COALESCE(SUM(m.fee_collected) FILTER (WHERE m.mode = '${TransferMode.STANDARD}'), 0)::TEXT as standard_fees,
+      COALESCE(SUM(m.fee_collected), 0)::TEXT as total_fees
+    FROM time_buckets tb
+    LEFT JOIN mints m ON 
+      m.block_time >= tb.bucket_start 
+      AND m.block_time < tb.bucket_start + $3 * INTERVAL '1 second'
+      AND m.token = 'USDC'
+    GROUP BY tb.bucket_start
+    ORDER BY time ASC
+  `;
+
+  try {
+    const result = await pool.query(query, [range.from, range.to, bucketSize]);
+    return result.rows.map(row => ({
+      time: row.time.toISOString(),
+      fast: row.fast_fees || '0',
+      standard: row.standard_fees || '0',
+      total: row.total_fees || '0',
+    }));
+  } catch (error) {
+    logger.error('Failed to get fee revenue by period', error);
+    throw error;
+  }
+}
+
 /**
  * Get outgoing details for a specific chain (where money goes)
  * Returns volume sent to each destination chain
  */
-export async function getChainOutgoingDetails(chainDomain: number, intervalMinutes: number): Promise<Array<{ destinationDomain: number; volume: string }>> {
+export async function getChainOutgoingDetails(
+  chainDomain: number,
+  range: TimeRange,
+  mode?: TransferMode
+): Promise<Array<{ destinationDomain: number; volume: string; fastVolume: string }>> {
   const query = `
     SELECT 
       destination_domain as destination_domain,
-      COALESCE(SUM(amount), 0)::TEXT as volume
+      COALESCE(SUM(amount), 0)::TEXT as volume,
+      COALESCE(SUM(amount) FILTER (WHERE mode = '${TransferMode.FAST}'), 0)::TEXT as fast_volume
     FROM burns
     WHERE chain_domain = $1
-      AND block_time >= NOW() - INTERVAL '${intervalMinutes} minutes'
+      AND block_time >= $3
+      AND block_time < $4
       AND token = 'USDC'
+      AND ($2::TEXT IS NULL OR mode = $2)
     GROUP BY destination_domain
     ORDER BY volume DESC
   `;
 
   try {
-    const result = await pool.query(query, [chainDomain]);
+    const result = await pool.query(query, [chainDomain, mode ?? null, range.from, range.to]);
     return result.rows.map(row => ({
       destinationDomain: row.destination_domain,
       volume: row.volume || '0',
+      fastVolume: row.fast_volume || '0',
     }));
   } catch (error) {
     logger.error('Failed to get chain outgoing details', error);
@@ -490,25 +1336,33 @@ export async function getChainOutgoingDetails(chainDomain: number, intervalMinut
  * Returns volume received from each source chain
  * Includes unknown sources (-1) for display, filters out same-chain sources (impossible in CCTP)
  */
-export async function getChainIncomingDetails(chainDomain: number, intervalMinutes: number): Promise<Array<{ sourceDomain: number; volume: string }>> {
+export async function getChainIncomingDetails(
+  chainDomain: number,
+  range: TimeRange,
+  mode?: TransferMode
+): Promise<Array<{ sourceDomain: number; volume: string; fastVolume: string }>> {
   const query = `
     SELECT 
       source_domain as source_domain,
-      COALESCE(SUM(amount), 0)::TEXT as volume
+      COALESCE(SUM(amount), 0)::TEXT as volume,
+      COALESCE(SUM(amount) FILTER (WHERE mode = '${TransferMode.FAST}'), 0)::TEXT as fast_volume
     FROM mints
     WHERE chain_domain = $1
-      AND block_time >= NOW() - INTERVAL '${intervalMinutes} minutes'
+      AND block_time >= $3
+      AND block_time < $4
       AND token = 'USDC'
       AND source_domain != $1
+      AND ($2::TEXT IS NULL OR mode = $2)
     GROUP BY source_domain
     ORDER BY volume DESC
   `;
 
   try {
-    const result = await pool.query(query, [chainDomain]);
+    const result = await pool.query(query, [chainDomain, mode ?? null, range.from, range.to]);
     return result.rows.map(row => ({
       sourceDomain: row.source_domain,
       volume: row.volume || '0',
+      fastVolume: row.fast_volume || '0',
     }));
   } catch (error) {
     logger.error('Failed to get chain incoming details', error);
@@ -520,26 +1374,27 @@ export async function getChainIncomingDetails(chainDomain: number, intervalMinut
  * Get chain volume chart data by time buckets (for outgoing or incoming)
  * Returns data grouped by destination/source chain
  * @param chainDomain - The chain domain ID
- * @param intervalMinutes - Time period to query
+ * @param range - Time range to query
  * @param type - 'outgoing' or 'incoming'
  * @param buckets - Number of time buckets (default 20)
  */
 export async function getChainVolumeChart(
   chainDomain: number,
-  intervalMinutes: number,
+  range: TimeRange,
   type: 'outgoing' | 'incoming',
-  buckets: number = 20
+  buckets: number = 20,
+  mode?: TransferMode
 ): Promise<Array<{ time: string; total: string; [key: string]: string }>> {
-  const bucketSize = intervalMinutes / buckets;
+  const bucketSize = bucketSeconds(range, buckets);
 
   let query: string;
   if (type === 'outgoing') {
     query = `
       WITH time_buckets AS (
         SELECT generate_series(
-          NOW() - INTERVAL '${intervalMinutes} minutes',
-          NOW(),
-          INTERVAL '${bucketSize} minutes'
+          $3::TIMESTAMPTZ,
+          $4::TIMESTAMPTZ - $5 * INTERVAL '1 second',
+          $5 * INTERVAL '1 second'
         ) as bucket_start
       ),
       burns_by_bucket AS (
@@ -550,9 +1405,10 @@ export async function getChainVolumeChart(
         FROM time_buckets tb
         LEFT JOIN burns b ON 
           b.block_time >= tb.bucket_start 
-          AND b.block_time < tb.bucket_start + INTERVAL '${bucketSize} minutes'
+          AND b.block_time < tb.bucket_start + $5 * INTERVAL '1 second'
           AND b.chain_domain = $1
           AND b.token = 'USDC'
+          AND ($2::TEXT IS NULL OR b.mode = $2)
         GROUP BY tb.bucket_start, b.destination_domain
       )
       SELECT 
@@ -573,9 +1429,9 @@ export async function getChainVolumeChart(
     query = `
       WITH time_buckets AS (
         SELECT generate_series(
-          NOW() - INTERVAL '${intervalMinutes} minutes',
-          NOW(),
-          INTERVAL '${bucketSize} minutes'
+          $3::TIMESTAMPTZ,
+          $4::TIMESTAMPTZ - $5 * INTERVAL '1 second',
+          $5 * INTERVAL '1 second'
         ) as bucket_start
       ),
       mints_by_bucket AS (
@@ -586,10 +1442,11 @@ export async function getChainVolumeChart(
         FROM time_buckets tb
         LEFT JOIN mints m ON 
           m.block_time >= tb.bucket_start 
-          AND m.block_time < tb.bucket_start + INTERVAL '${bucketSize} minutes'
+          AND m.block_time < tb.bucket_start + $5 * INTERVAL '1 second'
           AND m.chain_domain = $1
           AND m.token = 'USDC'
           AND m.source_domain != $1
+          AND ($2::TEXT IS NULL OR m.mode = $2)
         GROUP BY tb.bucket_start, m.source_domain
       )
       SELECT 
@@ -609,7 +1466,7 @@ export async function getChainVolumeChart(
   }
 
   try {
-    const result = await pool.query(query, [chainDomain]);
+    const result = await pool.query(query, [chainDomain, mode ?? null, range.from, range.to, bucketSize]);
     return result.rows.map(row => {
       const data: { time: string; total: string; [key: string]: string } = {
         time: row.time.toISOString(),
@@ -634,15 +1491,15 @@ export async function getChainVolumeChart(
 /**
  * Get volume by time buckets for chart (time series data)
  */
-export async function getVolumeByPeriod(intervalMinutes: number, buckets: number = 20): Promise<Array<{ time: string; in: string; out: string; total: string }>> {
-  const bucketSize = intervalMinutes / buckets;
+export async function getVolumeByPeriod(range: TimeRange, buckets: number = 20, mode?: TransferMode): Promise<Array<{ time: string; in: string; out: string; total: string }>> {
+  const bucketSize = bucketSeconds(range, buckets);
 
   const query = `
     WITH time_buckets AS (
       SELECT generate_series(
-        NOW() - INTERVAL '${intervalMinutes} minutes',
-        NOW(),
-        INTERVAL '${bucketSize} minutes'
+        $2::TIMESTAMPTZ,
+        $3::TIMESTAMPTZ - $4 * INTERVAL '1 second',
+        $4 * INTERVAL '1 second'
       ) as bucket_start
     ),
     burns_by_bucket AS (
@@ -652,8 +1509,9 @@ export async function getVolumeByPeriod(intervalMinutes: number, buckets: number
       FROM time_buckets tb
       LEFT JOIN burns b ON 
         b.block_time >= tb.bucket_start 
-        AND b.block_time < tb.bucket_start + INTERVAL '${bucketSize} minutes'
+        AND b.block_time < tb.bucket_start + $4 * INTERVAL '1 second'
         AND b.token = 'USDC'
+        AND ($1::TEXT IS NULL OR b.mode = $1)
       GROUP BY tb.bucket_start
     ),
     mints_by_bucket AS (
@@ -663,8 +1521,9 @@ export async function getVolumeByPeriod(intervalMinutes: number, buckets: number
       FROM time_buckets tb
       LEFT JOIN mints m ON 
         m.block_time >= tb.bucket_start 
-        AND m.block_time < tb.bucket_start + INTERVAL '${bucketSize} minutes'
+        AND m.block_time < tb.bucket_start + $4 * INTERVAL '1 second'
         AND m.token = 'USDC'
+        AND ($1::TEXT IS NULL OR m.mode = $1)
       GROUP BY tb.bucket_start
     )
     SELECT 
@@ -678,7 +1537,7 @@ export async function getVolumeByPeriod(intervalMinutes: number, buckets: number
   `;
 
   try {
-    const result = await pool.query(query);
+    const result = await pool.query(query, [mode ?? null, range.from, range.to, bucketSize]);
     return result.rows.map(row => ({
       time: row.time.toISOString(),
       in: row.in_volume || '0',
@@ -691,6 +1550,450 @@ export async function getVolumeByPeriod(intervalMinutes: number, buckets: number
   }
 }
 
+/**
+ * Get burns by an address (as depositor) and mints to it (as recipient), newest first
+ */
+export async function getAddressActivity(
+  address: string,
+  limit: number,
+  offset: number
+): Promise<{ items: AddressActivity[]; total: number }> {
+  const activity = `
+    SELECT 'OUT' as direction, chain_domain, destination_domain as counterparty_domain, amount, tx_hash, log_index,
+      block_time, transfer_id, mode, mint_recipient
+    FROM burns
+    WHERE depositor = $1
+    UNION ALL
+    SELECT 'IN' as direction, chain_domain, source_domain as counterparty_domain, amount, tx_hash, log_index,
+      block_time, transfer_id, mode, NULL as mint_recipient
+    FROM mints
+    WHERE mint_recipient = $1
+  `;
+
+  const query = `
+    SELECT a.*, t.status
+    FROM (${activity}) a
+    LEFT JOIN cctp_transfers t ON t.transfer_id = a.transfer_id
+    ORDER BY a.block_time DESC, a.tx_hash, a.log_index
+    LIMIT $2 OFFSET $3
+  `;
+
+  const countQuery = `SELECT COUNT(*) as total FROM (${activity}) a`;
+
+  try {
+    const [result, countResult] = await Promise.all([
+      pool.query(query, [address, limit, offset]),
+      pool.query(countQuery, [address]),
+    ]);
+
+    return {
+      items: result.rows.map(row => ({
+        direction: row.direction,
+        chainDomain: row.chain_domain,
+        counterpartyDomain: row.counterparty_domain,
+        amount: row.amount,
+        txHash: row.tx_hash,
+        logIndex: row.log_index,
+        blockTime: row.block_time,
+        transferId: row.transfer_id,
+        mode: row.mode as TransferMode | null,
+        status: row.status as TransferStatus | null,
+        mintRecipient: row.mint_recipient,
+      })),
+      total: parseInt(countResult.rows[0].total),
+    };
+  } catch (error) {
+    logger.error('Failed to get address activity', error);
+    throw error;
+  }
+}
+
+/**
+ * Get totals in (mints to the address) and out (burns by the address) per chain
+ */
+export async function getAddressTotals(address: string): Promise<AddressChainTotals[]> {
+  const query = `
+    WITH outgoing AS (
+      SELECT chain_domain, COUNT(*) as out_count, SUM(amount) as out_volume
+      FROM burns
+      WHERE depositor = $1
+      GROUP BY chain_domain
+    ),
+    incoming AS (
+      SELECT chain_domain, COUNT(*) as in_count, SUM(amount) as in_volume
+      FROM mints
+      WHERE mint_recipient = $1
+      GROUP BY chain_domain
+    )
+    SELECT
+      COALESCE(o.chain_domain, i.chain_domain) as chain_domain,
+      COALESCE(i.in_count, 0) as in_count,
+      COALESCE(o.out_count, 0) as out_count,
+      COALESCE(i.in_volume, 0)::TEXT as in_volume,
+      COALESCE(o.out_volume, 0)::TEXT as out_volume
+    FROM outgoing o
+    FULL OUTER JOIN incoming i ON o.chain_domain = i.chain_domain
+    ORDER BY COALESCE(i.in_volume, 0) + COALESCE(o.out_volume, 0) DESC
+  `;
+
+  try {
+    const result = await pool.query(query, [address]);
+    return result.rows.map(row => ({
+      chainDomain: row.chain_domain,
+      inCount: parseInt(row.in_count),
+      outCount: parseInt(row.out_count),
+      inVolume: row.in_volume,
+      outVolume: row.out_volume,
+    }));
+  } catch (error) {
+    logger.error('Failed to get address totals', error);
+    throw error;
+  }
+}
+
+/**
+ * Record a block range that failed to index
+ * Re-recording an existing open gap just counts another failed attempt
+ */
+export async function recordIndexGap(
+  chainDomain: number,
+  fromBlock: bigint,
+  toBlock: bigint,
+  error: string
+): Promise<void> {
+  const query = `
+    INSERT INTO index_gaps (chain_domain, from_block, to_block, last_error, attempts, last_attempt_at)
+    VALUES ($1, $2, $3, $4, 1, NOW())
+    ON CONFLICT (chain_domain, from_block, to_block) DO UPDATE SET
+      attempts = index_gaps.attempts + 1,
+      last_error = EXCLUDED.last_error,
+      last_attempt_at = NOW(),
+      resolved_at = NULL
+  `;
+
+  try {
+    await pool.query(query, [chainDomain, fromBlock.toString(), toBlock.toString(), error]);
+    logger.debug('Index gap recorded', { chainDomain, fromBlock: fromBlock.toString(), toBlock: toBlock.toString() });
+  } catch (err) {
+    logger.error('Failed to record index gap', { chainDomain, error: err });
+    throw err;
+  }
+}
+
+/**
+ * Get open gaps for a chain, oldest block first
+ */
+export async function getOpenIndexGaps(chainDomain: number, limit: number = 10): Promise<IndexGap[]> {
+  const query = `
+    SELECT * FROM index_gaps
+    WHERE chain_domain = $1 AND resolved_at IS NULL
+    ORDER BY from_block ASC
+    LIMIT $2
+  `;
+
+  try {
+    const result = await pool.query(query, [chainDomain, limit]);
+    return result.rows.map(mapRowToIndexGap);
+  } catch (error) {
+    logger.error('Failed to get open index gaps', { chainDomain, error });
+    throw error;
+  }
+}
+
+/**
+ * Mark a gap as resolved once its range has been re-indexed
+ */
+export async function resolveIndexGap(id: number): Promise<void> {
+  try {
+    await pool.query(
+      'UPDATE index_gaps SET resolved_at = NOW(), last_attempt_at = NOW() WHERE id = $1',
+      [id]
+    );
+  } catch (error) {
+    logger.error('Failed to resolve index gap', { id, error });
+    throw error;
+  }
+}
+
+/**
+ * Count a failed retry on an open gap
+ */
+export async function recordIndexGapAttempt(id: number, error: string): Promise<void> {
+  try {
+    await pool.query(
+      'UPDATE index_gaps SET attempts = attempts + 1, last_error = $2, last_attempt_at = NOW() WHERE id = $1',
+      [id, error]
+    );
+  } catch (err) {
+    logger.error('Failed to record index gap attempt', { id, error: err });
+    throw err;
+  }
+}
+
+/**
+ * Get outstanding gaps per chain
+ */
+export async function getIndexGapSummary(): Promise<IndexGapSummary[]> {
+  const query = `
+    SELECT
+      chain_domain,
+      COUNT(*)::INTEGER as open_gaps,
+      SUM(to_block - from_block + 1)::TEXT as missing_blocks,
+      MIN(created_at) as oldest_gap_at,
+      MAX(attempts) as max_attempts
+    FROM index_gaps
+    WHERE resolved_at IS NULL
+    GROUP BY chain_domain
+    ORDER BY chain_domain
+  `;
+
+  try {
+    const result = await pool.query(query);
+    return result.rows.map(row => ({
+      chainDomain: row.chain_domain,
+      openGaps: row.open_gaps,
+      missingBlocks: row.missing_blocks || '0',
+      oldestGapAt: row.oldest_gap_at,
+      maxAttempts: row.max_attempts,
+    }));
+  } catch (error) {
+    logger.error('Failed to get index gap summary', error);
+    throw error;
+  }
+}
+
+/**
+ * Get recorded checkpoint block hashes for a chain, newest first
+ */
+export async function getCheckpointBlocks(chainDomain: number): Promise<Array<{ blockNumber: bigint; blockHash: string }>> {
+  const query = `
+    SELECT block_number, block_hash FROM checkpoint_blocks
+    WHERE chain_domain = $1
+    ORDER BY block_number DESC
+  `;
+
+  try {
+    const result = await pool.query(query, [chainDomain]);
+    return result.rows.map(row => ({
+      blockNumber: BigInt(row.block_number),
+      blockHash: row.block_hash,
+    }));
+  } catch (error) {
+    logger.error('Failed to get checkpoint blocks', { chainDomain, error });
+    throw error;
+  }
+}
+
+/**
+ * Get the learned eth_getLogs block range for a chain (null until one has been saved)
+ */
+export async function getLogRange(chainDomain: number): Promise<bigint | null> {
+  const query = 'SELECT log_range_blocks FROM chain_checkpoints WHERE chain_domain = $1';
+
+  try {
+    const result = await pool.query(query, [chainDomain]);
+    const value = result.rows[0]?.log_range_blocks;
+    return value === null || value === undefined ? null : BigInt(value);
+  } catch (error) {
+    logger.error('Failed to get log range', { chainDomain, error });
+    throw error;
+  }
+}
+
+/**
+ * Save the learned eth_getLogs block range for a chain (creates the checkpoint row if missing)
+ */
+export async function updateLogRange(chainDomain: number, blocks: bigint): Promise<void> {
+  const query = `
+    INSERT INTO chain_checkpoints (chain_domain, last_processed_block, log_range_blocks, updated_at)
+    VALUES ($1, 0, $2, NOW())
+    ON CONFLICT (chain_domain)
+    DO UPDATE SET log_range_blocks = EXCLUDED.log_range_blocks
+  `;
+
+  try {
+    await pool.query(query, [chainDomain, blocks.toString()]);
+  } catch (error) {
+    logger.error('Failed to update log range', { chainDomain, error });
+    throw error;
+  }
+}
+
+/**
+ * Get cached block timestamps for a chain, keyed by block number (blocks not cached are absent)
+ */
+export async function getBlockTimestamps(chainDomain: number, blockNumbers: bigint[]): Promise<Map<bigint, Date>> {
+  const query = `
+    SELECT block_number, block_time FROM block_timestamps
+    WHERE chain_domain = $1 AND block_number = ANY($2::BIGINT[])
+  `;
+
+  try {
+    const result = await pool.query(query, [chainDomain, blockNumbers.map(n => n.toString())]);
+    return new Map(result.rows.map(row => [BigInt(row.block_number), row.block_time as Date]));
+  } catch (error) {
+    logger.error('Failed to get block timestamps', { chainDomain, error });
+    throw error;
+  }
+}
+
+/**
+ * Cache block timestamps for a chain (existing entries kept) and prune entries older than `retentionDays`
+ */
+export async function saveBlockTimestamps(chainDomain: number, timestamps: Map<bigint, Date>, retentionDays: number): Promise<void> {
+  if (timestamps.size === 0) return;
+
+  const insertQuery = `
+    INSERT INTO block_timestamps (chain_domain, block_number, block_time)
+    SELECT $1, block_number, block_time FROM UNNEST($2::BIGINT[], $3::TIMESTAMPTZ[]) AS t(block_number, block_time)
+    ON CONFLICT (chain_domain, block_number) DO NOTHING
+  `;
+  const pruneQuery = `
+    DELETE FROM block_timestamps
+    WHERE chain_domain = $1 AND block_time < NOW() - $2 * INTERVAL '1 day'
+  `;
+
+  try {
+    const entries = [...timestamps.entries()];
+    await pool.query(insertQuery, [
+      chainDomain,
+      entries.map(([blockNumber]) => blockNumber.toString()),
+      entries.map(([, blockTime]) => blockTime),
+    ]);
+    await pool.query(pruneQuery, [chainDomain, retentionDays]);
+  } catch (error) {
+    logger.error('Failed to save block timestamps', { chainDomain, error });
+    throw error;
+  }
+}
+
+/**
+ * Roll a chain back to a block after a reorg
+ * Deletes burns/mints and cached block timestamps above the fork block, unlinks their transfer halves
+ * (a transfer losing its mint goes back to its attestation state), trims open index gaps to the fork block
+ * and resets the checkpoint
+ */
+export async function rollbackChainToBlock(chainDomain: number, forkBlock: bigint): Promise<{ burns: number; mints: number }> {
+  const client = await pool.connect();
+  const params = [chainDomain, forkBlock.toString()];
+
+  try {
+    await client.query('BEGIN');
+
+    // Burn halves: drop transfers that have nothing else, otherwise clear the burn side
+    const orphanedBurns = 'SELECT transfer_id FROM burns WHERE chain_domain = $1 AND block_number > $2 AND transfer_id IS NOT NULL';
+    await client.query(
+      `DELETE FROM cctp_transfers WHERE transfer_id IN (${orphanedBurns}) AND mint_tx_hash IS NULL`,
+      params
+    );
+    await client.query(
+      `UPDATE cctp_transfers SET burn_tx_hash = NULL, burn_at = NULL, updated_at = NOW() WHERE transfer_id IN (${orphanedBurns})`,
+      params
+    );
+
+    // Mint halves: same, and move the transfer back to waiting for its mint
+    const orphanedMints = 'SELECT transfer_id FROM mints WHERE chain_domain = $1 AND block_number > $2 AND transfer_id IS NOT NULL';
+    await client.query(
+      `DELETE FROM cctp_transfers WHERE transfer_id IN (${orphanedMints}) AND burn_tx_hash IS NULL`,
+      params
+    );
+    await client.query(
+      `UPDATE cctp_transfers SET
+         mint_tx_hash = NULL,
+         mint_at = NULL,
+         status = CASE WHEN iris_attested_at IS NOT NULL THEN $3 ELSE $4 END,
+         updated_at = NOW()
+       WHERE transfer_id IN (${orphanedMints})`,
+      [...params, TransferStatus.ATTESTATION_COMPLETE, TransferStatus.MESSAGE_SENT]
+    );
+
+    const burns = await client.query('DELETE FROM burns WHERE chain_domain = $1 AND block_number > $2', params);
+    const mints = await client.query('DELETE FROM mints WHERE chain_domain = $1 AND block_number > $2', params);
+
+    await client.query('DELETE FROM checkpoint_blocks WHERE chain_domain = $1 AND block_number > $2', params);
+    await client.query('DELETE FROM block_timestamps WHERE chain_domain = $1 AND block_number > $2', params);
+
+    // Open gaps above the fork are re-indexed from the checkpoint; gaps spanning it keep their part below
+    await client.query('DELETE FROM index_gaps WHERE chain_domain = $1 AND from_block > $2 AND resolved_at IS NULL', params);
+    await client.query(
+      `UPDATE index_gaps g SET to_block = $2
+       WHERE g.chain_domain = $1 AND g.to_block > $2 AND g.resolved_at IS NULL
+         AND NOT EXISTS (
+           SELECT 1 FROM index_gaps other
+           WHERE other.chain_domain = $1 AND other.from_block = g.from_block AND other.to_block = $2
+         )`,
+      params
+    );
+    await client.query(
+      `UPDATE chain_checkpoints
+       SET last_processed_block = $2,
+           last_block_hash = (SELECT block_hash FROM checkpoint_blocks WHERE chain_domain = $1 AND block_number = $2),
+           updated_at = NOW()
+       WHERE chain_domain = $1`,
+      params
+    );
+
+    await client.query('COMMIT');
+    return { burns: burns.rowCount ?? 0, mints: mints.rowCount ?? 0 };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    logger.error('Failed to roll back chain', { chainDomain, forkBlock: forkBlock.toString(), error });
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Helper to map database row to IndexGap object
+ */
+function mapRowToIndexGap(row: any): IndexGap {
+  return {
+    id: Number(row.id),
+    chainDomain: row.chain_domain,
+    fromBlock: BigInt(row.from_block),
+    toBlock: BigInt(row.to_block),
+    attempts: row.attempts,
+    lastError: row.last_error,
+    createdAt: row.created_at,
+    lastAttemptAt: row.last_attempt_at
+  };
+}
+
+/**
+ * Helper to map latency aggregate columns (see getLatencyMetrics) to per-stage stats
+ */
+function mapRowToStageLatency(row: any): StageLatency {
+  const toMs = (value: any) => (value === null ? null : Math.round(Number(value)));
+  const stats = (column: string): LatencyStats => ({
+    count: Number(row[`${column}_count`]),
+    avgMs: toMs(row[`${column}_avg`]),
+    p50Ms: toMs(row[`${column}_p50`]),
+    p95Ms: toMs(row[`${column}_p95`]),
+    p99Ms: toMs(row[`${column}_p99`]),
+  });
+
+  return {
+    burnToMint: stats(LATENCY_STAGES.burnToMint),
+    burnToIris: stats(LATENCY_STAGES.burnToIris),
+    irisToMint: stats(LATENCY_STAGES.irisToMint),
+  };
+}
+
+/**
+ * Helper to map fee aggregate columns (see getFeeMetrics) to fee stats
+ */
+function mapRowToFeeStats(row: any): FeeStats {
+  const toBps = (value: any) => (value === null ? null : Math.round(Number(value) * 100) / 100);
+  return {
+    mintCount: Number(row.mint_count),
+    feeTotal: row.fee_total || '0',
+    volume: row.volume || '0',
+    effectiveFeeBps: toBps(row.effective_fee_bps),
+    maxFeeBps: toBps(row.max_fee_bps),
+  };
+}
+
 /**
  * Helper to map database row to Transfer object
  */
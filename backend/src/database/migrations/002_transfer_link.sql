@@ -0,0 +1,12 @@
+-- Link burns and mints to cctp_transfers
+-- transfer_id is the keccak256 of the MessageV2 with attester-filled fields zeroed,
+-- identical on the source (MessageSent) and destination (receiveMessage) side
+
+ALTER TABLE burns ADD COLUMN IF NOT EXISTS nonce TEXT;
+ALTER TABLE burns ADD COLUMN IF NOT EXISTS transfer_id TEXT;
+
+ALTER TABLE mints ADD COLUMN IF NOT EXISTS nonce TEXT;
+ALTER TABLE mints ADD COLUMN IF NOT EXISTS transfer_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_burns_transfer_id ON burns(transfer_id);
+CREATE INDEX IF NOT EXISTS idx_mints_transfer_id ON mints(transfer_id);
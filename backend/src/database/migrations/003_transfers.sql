@@ -0,0 +1,107 @@
+-- Transfer-level tables
+-- One row per CCTP transfer (burn and mint halves joined) plus per-minute route aggregates
+
+-- Table: cctp_transfers
+-- Mirrors the Transfer type; burn or mint half may be missing until both sides are indexed
+CREATE TABLE IF NOT EXISTS cctp_transfers (
+    transfer_id TEXT PRIMARY KEY,
+    source_domain INTEGER NOT NULL,
+    destination_domain INTEGER NOT NULL,
+    mode TEXT NOT NULL CHECK (mode IN ('FAST', 'STANDARD')),
+    token_type TEXT NOT NULL DEFAULT 'USDC' CHECK (token_type IN ('USDC', 'USYC')),
+    amount NUMERIC NOT NULL,
+
+    -- Transaction hashes
+    burn_tx_hash TEXT,
+    mint_tx_hash TEXT,
+
+    -- Timestamps
+    burn_at TIMESTAMPTZ,
+    iris_attested_at TIMESTAMPTZ,
+    mint_at TIMESTAMPTZ,
+
+    -- Status
+    status TEXT NOT NULL,
+    error_reason TEXT,
+
+    -- Additional metadata
+    nonce TEXT,
+    message_body TEXT,
+    sender TEXT NOT NULL,
+    recipient TEXT NOT NULL,
+    min_finality_threshold INTEGER NOT NULL,
+    max_fee NUMERIC NOT NULL DEFAULT 0,
+    finality_threshold_executed INTEGER,
+
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Indexes for efficient querying
+CREATE INDEX IF NOT EXISTS idx_transfers_status_burn_at ON cctp_transfers(status, burn_at);
+CREATE INDEX IF NOT EXISTS idx_transfers_burn_at ON cctp_transfers(burn_at DESC);
+CREATE INDEX IF NOT EXISTS idx_transfers_route ON cctp_transfers(source_domain, destination_domain);
+CREATE INDEX IF NOT EXISTS idx_transfers_burn_tx_hash ON cctp_transfers(burn_tx_hash);
+CREATE INDEX IF NOT EXISTS idx_transfers_mint_tx_hash ON cctp_transfers(mint_tx_hash);
+CREATE INDEX IF NOT EXISTS idx_transfers_nonce ON cctp_transfers(source_domain, nonce);
+
+-- Table: cctp_transfer_metrics_minute
+-- Mirrors the TransferMetricsBucket type (one row per minute, route, mode and token)
+CREATE TABLE IF NOT EXISTS cctp_transfer_metrics_minute (
+    bucket_start TIMESTAMPTZ NOT NULL,
+    from_chain INTEGER NOT NULL,
+    to_chain INTEGER NOT NULL,
+    mode TEXT NOT NULL,
+    token_type TEXT NOT NULL,
+    transfer_count INTEGER NOT NULL DEFAULT 0,
+    volume_total NUMERIC NOT NULL DEFAULT 0,
+    sum_burn_to_mint_ms BIGINT NOT NULL DEFAULT 0,
+    sum_burn_to_iris_ms BIGINT NOT NULL DEFAULT 0,
+    sum_iris_to_mint_ms BIGINT NOT NULL DEFAULT 0,
+    error_count INTEGER NOT NULL DEFAULT 0,
+    incomplete_count INTEGER NOT NULL DEFAULT 0,
+
+    PRIMARY KEY (bucket_start, from_chain, to_chain, mode, token_type)
+);
+
+CREATE INDEX IF NOT EXISTS idx_transfer_metrics_bucket ON cctp_transfer_metrics_minute(bucket_start DESC);
+
+-- Function to add one transfer to its minute bucket
+CREATE OR REPLACE FUNCTION upsert_transfer_metrics(
+    p_bucket_start TIMESTAMPTZ,
+    p_from_chain INTEGER,
+    p_to_chain INTEGER,
+    p_mode TEXT,
+    p_token_type TEXT,
+    p_volume NUMERIC,
+    p_burn_to_mint_ms BIGINT,
+    p_burn_to_iris_ms BIGINT,
+    p_iris_to_mint_ms BIGINT,
+    p_is_error BOOLEAN,
+    p_is_incomplete BOOLEAN
+) RETURNS VOID AS $$
+BEGIN
+    INSERT INTO cctp_transfer_metrics_minute (
+        bucket_start, from_chain, to_chain, mode, token_type,
+        transfer_count, volume_total,
+        sum_burn_to_mint_ms, sum_burn_to_iris_ms, sum_iris_to_mint_ms,
+        error_count, incomplete_count
+    )
+    VALUES (
+        DATE_TRUNC('minute', p_bucket_start), p_from_chain, p_to_chain, p_mode, p_token_type,
+        1, p_volume,
+        p_burn_to_mint_ms, p_burn_to_iris_ms, p_iris_to_mint_ms,
+        CASE WHEN p_is_error THEN 1 ELSE 0 END,
+        CASE WHEN p_is_incomplete THEN 1 ELSE 0 END
+    )
+    ON CONFLICT (bucket_start, from_chain, to_chain, mode, token_type)
+    DO UPDATE SET
+        transfer_count = cctp_transfer_metrics_minute.transfer_count + 1,
+        volume_total = cctp_transfer_metrics_minute.volume_total + p_volume,
+        sum_burn_to_mint_ms = cctp_transfer_metrics_minute.sum_burn_to_mint_ms + p_burn_to_mint_ms,
+        sum_burn_to_iris_ms = cctp_transfer_metrics_minute.sum_burn_to_iris_ms + p_burn_to_iris_ms,
+        sum_iris_to_mint_ms = cctp_transfer_metrics_minute.sum_iris_to_mint_ms + p_iris_to_mint_ms,
+        error_count = cctp_transfer_metrics_minute.error_count + CASE WHEN p_is_error THEN 1 ELSE 0 END,
+        incomplete_count = cctp_transfer_metrics_minute.incomplete_count + CASE WHEN p_is_incomplete THEN 1 ELSE 0 END;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,22 @@
+-- Index gaps
+-- Block ranges whose logs could not be fetched; the checkpoint advances past them
+-- and the scheduler retries them until resolved
+
+CREATE TABLE IF NOT EXISTS index_gaps (
+    id BIGSERIAL PRIMARY KEY,
+    chain_domain INTEGER NOT NULL,
+    from_block BIGINT NOT NULL,
+    to_block BIGINT NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    last_attempt_at TIMESTAMPTZ,
+    resolved_at TIMESTAMPTZ,
+
+    -- Unique constraint to prevent duplicates
+    UNIQUE(chain_domain, from_block, to_block)
+);
+
+-- Open gaps per chain, oldest first
+CREATE INDEX IF NOT EXISTS idx_index_gaps_open ON index_gaps(chain_domain, from_block)
+    WHERE resolved_at IS NULL;
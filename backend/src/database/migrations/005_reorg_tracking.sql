@@ -0,0 +1,52 @@
+-- Reorg tracking
+-- Block hash of every checkpoint, so the next cycle can detect that an indexed block was orphaned
+
+ALTER TABLE chain_checkpoints ADD COLUMN IF NOT EXISTS last_block_hash TEXT;
+
+-- Table: checkpoint_blocks
+-- Recent checkpoint hashes per chain, walked back to find the fork point after a reorg
+CREATE TABLE IF NOT EXISTS checkpoint_blocks (
+    chain_domain INTEGER NOT NULL,
+    block_number BIGINT NOT NULL,
+    block_hash TEXT NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+
+    PRIMARY KEY (chain_domain, block_number)
+);
+
+-- Indexes for rollback deletes
+CREATE INDEX IF NOT EXISTS idx_burns_chain_block ON burns(chain_domain, block_number);
+CREATE INDEX IF NOT EXISTS idx_mints_chain_block ON mints(chain_domain, block_number);
+
+-- Function to update checkpoint with its block hash (keeps the last 256 hashes per chain)
+CREATE OR REPLACE FUNCTION update_checkpoint_with_hash(
+    p_chain_domain INTEGER,
+    p_last_block BIGINT,
+    p_block_hash TEXT
+) RETURNS VOID AS $$
+BEGIN
+    INSERT INTO chain_checkpoints (chain_domain, last_processed_block, last_block_hash, updated_at)
+    VALUES (p_chain_domain, p_last_block, p_block_hash, NOW())
+    ON CONFLICT (chain_domain)
+    DO UPDATE SET
+        last_processed_block = p_last_block,
+        last_block_hash = p_block_hash,
+        updated_at = NOW();
+
+    INSERT INTO checkpoint_blocks (chain_domain, block_number, block_hash)
+    VALUES (p_chain_domain, p_last_block, p_block_hash)
+    ON CONFLICT (chain_domain, block_number)
+    DO UPDATE SET block_hash = p_block_hash, created_at = NOW();
+
+    DELETE FROM checkpoint_blocks
+    WHERE chain_domain = p_chain_domain
+      AND block_number < (
+          SELECT MIN(block_number) FROM (
+              SELECT block_number FROM checkpoint_blocks
+              WHERE chain_domain = p_chain_domain
+              ORDER BY block_number DESC
+              LIMIT 256
+          ) recent
+      );
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,17 @@
+-- Finalized block per chain
+-- Rows at or below finalized_block count as finalized volume, rows above it as provisional
+
+ALTER TABLE chain_checkpoints ADD COLUMN IF NOT EXISTS finalized_block BIGINT;
+
+-- Function to update the finalized block (creates the checkpoint row if missing)
+CREATE OR REPLACE FUNCTION update_finalized_block(
+    p_chain_domain INTEGER,
+    p_finalized_block BIGINT
+) RETURNS VOID AS $$
+BEGIN
+    INSERT INTO chain_checkpoints (chain_domain, last_processed_block, finalized_block, updated_at)
+    VALUES (p_chain_domain, 0, p_finalized_block, NOW())
+    ON CONFLICT (chain_domain)
+    DO UPDATE SET finalized_block = p_finalized_block;
+END;
+$$ LANGUAGE plpgsql;
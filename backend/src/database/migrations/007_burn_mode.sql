@@ -0,0 +1,26 @@
+-- Transfer mode on burns and mints
+-- Burns keep the requested minFinalityThreshold and maxFee; mode is FAST when the threshold is <= 1000
+-- Mints get the mode of the received message when it is known
+
+ALTER TABLE burns ADD COLUMN IF NOT EXISTS min_finality_threshold INTEGER;
+ALTER TABLE burns ADD COLUMN IF NOT EXISTS max_fee NUMERIC;
+ALTER TABLE burns ADD COLUMN IF NOT EXISTS mode TEXT CHECK (mode IN ('FAST', 'STANDARD'));
+ALTER TABLE mints ADD COLUMN IF NOT EXISTS mode TEXT CHECK (mode IN ('FAST', 'STANDARD'));
+
+-- Backfill rows linked to a transfer
+UPDATE burns b
+SET min_finality_threshold = t.min_finality_threshold,
+    max_fee = t.max_fee,
+    mode = t.mode
+FROM cctp_transfers t
+WHERE b.transfer_id = t.transfer_id
+  AND b.mode IS NULL;
+
+UPDATE mints m
+SET mode = t.mode
+FROM cctp_transfers t
+WHERE m.transfer_id = t.transfer_id
+  AND m.mode IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_burns_mode_block_time ON burns(mode, block_time DESC);
+CREATE INDEX IF NOT EXISTS idx_mints_mode_block_time ON mints(mode, block_time DESC);
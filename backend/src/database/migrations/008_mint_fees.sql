@@ -0,0 +1,13 @@
+-- Fees collected on mints
+-- fee_collected comes from MintAndWithdraw; max_fee is the fee cap from the received BurnMessageV2 (NULL if not decoded)
+-- The burned amount is amount + fee_collected
+
+ALTER TABLE mints ADD COLUMN IF NOT EXISTS fee_collected NUMERIC NOT NULL DEFAULT 0;
+ALTER TABLE mints ADD COLUMN IF NOT EXISTS max_fee NUMERIC;
+
+-- Backfill max_fee for rows linked to a transfer
+UPDATE mints m
+SET max_fee = t.max_fee
+FROM cctp_transfers t
+WHERE m.transfer_id = t.transfer_id
+  AND m.max_fee IS NULL;
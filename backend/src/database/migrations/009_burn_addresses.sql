@@ -0,0 +1,26 @@
+-- Addresses and hook data on burns
+-- depositor is in the source chain's format; mint_recipient and destination_caller in the destination chain's
+-- destination_caller / hook_data are NULL when unset (anyone may relay / no hook)
+
+ALTER TABLE burns ADD COLUMN IF NOT EXISTS depositor TEXT;
+ALTER TABLE burns ADD COLUMN IF NOT EXISTS mint_recipient TEXT;
+ALTER TABLE burns ADD COLUMN IF NOT EXISTS destination_caller TEXT;
+ALTER TABLE burns ADD COLUMN IF NOT EXISTS hook_data TEXT;
+
+-- Backfill depositors from linked transfers (sender is the source-side depositor)
+UPDATE burns b
+SET depositor = t.sender
+FROM cctp_transfers t
+WHERE b.transfer_id = t.transfer_id
+  AND b.depositor IS NULL;
+
+-- EVM mint recipients were stored checksummed; lowercase them to match burns
+UPDATE mints
+SET mint_recipient = LOWER(mint_recipient)
+WHERE mint_recipient ~ '^0x[0-9a-fA-F]{40}$'
+  AND mint_recipient <> LOWER(mint_recipient);
+
+CREATE INDEX IF NOT EXISTS idx_burns_depositor ON burns(depositor);
+CREATE INDEX IF NOT EXISTS idx_burns_mint_recipient ON burns(mint_recipient);
+CREATE INDEX IF NOT EXISTS idx_burns_hook_data ON burns(chain_domain, block_time DESC) WHERE hook_data IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_mints_mint_recipient ON mints(mint_recipient);
@@ -0,0 +1,6 @@
+-- Transfer list ordering
+-- GET /api/transfers sorts by burn time, falling back to mint time for transfers whose burn was not indexed,
+-- and pages on (sort time, transfer_id)
+
+CREATE INDEX IF NOT EXISTS idx_transfers_sort_time
+    ON cctp_transfers ((COALESCE(burn_at, mint_at)) DESC, transfer_id DESC);
@@ -0,0 +1,16 @@
+-- Stuck transfer anomalies
+-- Written by the anomaly detector: one row per burned transfer that has not minted within
+-- its route's expected latency; resolved_at is set once the transfer is no longer flagged
+
+CREATE TABLE IF NOT EXISTS transfer_anomalies (
+    transfer_id TEXT PRIMARY KEY REFERENCES cctp_transfers(transfer_id) ON DELETE CASCADE,
+    type TEXT NOT NULL CHECK (type IN ('PENDING_TOO_LONG', 'NO_ATTESTATION', 'RECEIVE_ERROR', 'NOT_MINTED')),
+    expected_latency_ms BIGINT NOT NULL,
+    description TEXT NOT NULL,
+    detected_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    resolved_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_transfer_anomalies_open ON transfer_anomalies(type, detected_at DESC)
+    WHERE resolved_at IS NULL;
@@ -0,0 +1,16 @@
+-- Transfer expiry and re-attestation
+-- expiration_block comes from the attested BurnMessageV2 (NULL or 0 = never expires);
+-- a transfer is EXPIRED once its destination is indexed past that block without a mint
+
+ALTER TABLE cctp_transfers ADD COLUMN IF NOT EXISTS expiration_block NUMERIC;
+ALTER TABLE cctp_transfers ADD COLUMN IF NOT EXISTS reattest_requested_at TIMESTAMPTZ;
+ALTER TABLE cctp_transfers ADD COLUMN IF NOT EXISTS reattest_count INTEGER NOT NULL DEFAULT 0;
+
+-- Unminted transfers that can expire
+CREATE INDEX IF NOT EXISTS idx_transfers_expiring ON cctp_transfers(destination_domain, expiration_block)
+    WHERE mint_at IS NULL AND expiration_block > 0;
+
+-- Expired transfers are reported as anomalies too
+ALTER TABLE transfer_anomalies DROP CONSTRAINT IF EXISTS transfer_anomalies_type_check;
+ALTER TABLE transfer_anomalies ADD CONSTRAINT transfer_anomalies_type_check
+    CHECK (type IN ('PENDING_TOO_LONG', 'NO_ATTESTATION', 'RECEIVE_ERROR', 'NOT_MINTED', 'EXPIRED'));
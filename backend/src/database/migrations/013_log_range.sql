@@ -0,0 +1,5 @@
+-- Learned getLogs range per chain
+-- The EVM indexer grows its eth_getLogs block range on success and bisects it when the provider
+-- rejects the range; the learned size is kept here so restarts resume at full throughput
+
+ALTER TABLE chain_checkpoints ADD COLUMN IF NOT EXISTS log_range_blocks BIGINT;
@@ -0,0 +1,14 @@
+-- Block timestamps
+-- Timestamps of blocks holding CCTP logs, so re-indexed ranges (gap retries, reorg recovery,
+-- restarts) do not fetch the same headers again; rows older than the retention window are pruned
+
+CREATE TABLE IF NOT EXISTS block_timestamps (
+    chain_domain INTEGER NOT NULL,
+    block_number BIGINT NOT NULL,
+    block_time TIMESTAMPTZ NOT NULL,
+
+    PRIMARY KEY (chain_domain, block_number)
+);
+
+-- Pruning by age
+CREATE INDEX IF NOT EXISTS idx_block_timestamps_time ON block_timestamps(chain_domain, block_time);
@@ -0,0 +1,11 @@
+-- Iris polling bookkeeping
+-- Transfers awaiting attestation are polled least recently polled first; each poll that finds
+-- no message on Iris doubles the wait before the next one, so unresolvable transfers
+-- cannot hold every slot of the poll cycle
+
+ALTER TABLE cctp_transfers ADD COLUMN IF NOT EXISTS iris_polled_at TIMESTAMPTZ;
+ALTER TABLE cctp_transfers ADD COLUMN IF NOT EXISTS iris_poll_misses INTEGER NOT NULL DEFAULT 0;
+
+-- Poll queue
+CREATE INDEX IF NOT EXISTS idx_transfers_iris_poll ON cctp_transfers(iris_polled_at NULLS FIRST, burn_at)
+    WHERE status IN ('MESSAGE_SENT', 'ATTESTATION_PENDING');
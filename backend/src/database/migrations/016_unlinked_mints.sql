@@ -0,0 +1,5 @@
+-- Mints indexed before their burn was attested have a nonce but no transfer ID;
+-- they are linked by route and nonce once the transfer's nonce is known
+
+CREATE INDEX IF NOT EXISTS idx_mints_unlinked ON mints(source_domain, chain_domain, nonce)
+    WHERE transfer_id IS NULL AND nonce IS NOT NULL;
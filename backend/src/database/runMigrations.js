@@ -2,7 +2,7 @@
  * Run database migrations (compiled JS version)
  */
 
-const { readFileSync } = require('fs');
+const { readFileSync, readdirSync } = require('fs');
 const { join } = require('path');
 const { Pool } = require('pg');
 
@@ -19,10 +19,17 @@ async function runMigrations() {
   try {
     logger.info('Running database migrations...');
     
-    const migrationPath = join(__dirname, 'migrations', '001_init.sql');
-    const sql = readFileSync(migrationPath, 'utf8');
+    // Migrations are idempotent and run in filename order on every startup
+    const migrationsDir = join(__dirname, 'migrations');
+    const files = readdirSync(migrationsDir)
+      .filter(file => file.endsWith('.sql'))
+      .sort();
     
-    await pool.query(sql);
+    for (const file of files) {
+      const sql = readFileSync(join(migrationsDir, file), 'utf8');
+      await pool.query(sql);
+      logger.info(`Applied ${file}`);
+    }
     
     logger.info('Migration completed successfully');
     await pool.end();
@@ -13,8 +13,13 @@ dotenv.config();
 import { testConnection, closePool } from './config/database';
 import metricsRoutes from './routes/metrics';
 import healthRoutes from './routes/health';
+import addressRoutes from './routes/addresses';
+import transferRoutes from './routes/transfers';
+import anomalyRoutes from './routes/anomalies';
 import { createLogger } from './utils/logger';
 import { CCTPScheduler } from './services/CCTPScheduler';
+import { IrisPoller } from './services/IrisPoller';
+import { AnomalyDetector } from './services/AnomalyDetector';
 
 const logger = createLogger('Main');
 
@@ -40,6 +45,9 @@ async function main() {
   // Routes
   app.use('/api/metrics', metricsRoutes);
   app.use('/api/health', healthRoutes);
+  app.use('/api/addresses', addressRoutes);
+  app.use('/api/transfers', transferRoutes);
+  app.use('/api/anomalies', anomalyRoutes);
 
   // Root endpoint
   app.get('/', (req, res) => {
@@ -60,6 +68,14 @@ async function main() {
   await scheduler.start();
   logger.info('CCTP Scheduler started (14 EVM chains, QuickNode free tier compatible)');
 
+  // Start Iris attestation poller (burned transfers -> ATTESTATION_PENDING/COMPLETE)
+  const irisPoller = new IrisPoller();
+  irisPoller.start();
+
+  // Start anomaly detector (burned transfers not minted within their route's expected latency)
+  const anomalyDetector = new AnomalyDetector();
+  anomalyDetector.start();
+
   logger.info('CCTP Visualizer Backend initialized');
 
   // Graceful shutdown
@@ -68,6 +84,8 @@ async function main() {
     if (scheduler) {
       scheduler.stop();
     }
+    irisPoller.stop();
+    anomalyDetector.stop();
     await closePool();
     process.exit(0);
   };
@@ -0,0 +1,52 @@
+/**
+ * Address explorer routes
+ */
+
+import { Router, Request, Response } from 'express';
+import { getAddressActivity, getAddressTotals } from '../database/client';
+import { AddressTransfersPage } from '../types/address';
+import { normalizeAddress } from '../utils/address';
+import { createLogger } from '../utils/logger';
+import { ValidationError, parseInteger } from '../utils/validation';
+
+const logger = createLogger('AddressRoutes');
+const router: Router = Router();
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+/**
+ * Get burns by and mints to an address across all domains, with totals in/out per chain
+ * EVM addresses match case-insensitively; Solana addresses are base58, Starknet addresses 0x hex
+ * GET /api/addresses/:address/transfers?limit=50&offset=0
+ */
+router.get('/:address/transfers', async (req: Request, res: Response) => {
+  try {
+    const address = normalizeAddress(req.params.address);
+    const limit = parseInteger(req.query.limit, 'limit', 1, MAX_PAGE_SIZE) ?? DEFAULT_PAGE_SIZE;
+    const offset = parseInteger(req.query.offset, 'offset', 0, Number.MAX_SAFE_INTEGER) ?? 0;
+
+    const [activity, totals] = await Promise.all([
+      getAddressActivity(address, limit, offset),
+      getAddressTotals(address),
+    ]);
+
+    const page: AddressTransfersPage = {
+      address,
+      totals,
+      items: activity.items,
+      total: activity.total,
+      limit,
+      offset,
+    };
+    res.json(page);
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json(error.toJSON());
+    }
+    logger.error('Error fetching address transfers', error);
+    res.status(500).json({ error: 'Failed to fetch address transfers' });
+  }
+});
+
+export default router;
@@ -0,0 +1,44 @@
+/**
+ * Anomaly routes - stuck transfers flagged by the anomaly detector
+ */
+
+import { Router, Request, Response } from 'express';
+import { getAnomalies, getAnomalyCounts } from '../database/client';
+import { AnomalyType } from '../types/metrics';
+import { createLogger } from '../utils/logger';
+import { ValidationError, parseEnum, parseInteger } from '../utils/validation';
+
+const logger = createLogger('AnomalyRoutes');
+const router: Router = Router();
+
+const ANOMALY_TYPES: Record<AnomalyType, AnomalyType> = {
+  PENDING_TOO_LONG: 'PENDING_TOO_LONG',
+  NO_ATTESTATION: 'NO_ATTESTATION',
+  RECEIVE_ERROR: 'RECEIVE_ERROR',
+  NOT_MINTED: 'NOT_MINTED',
+  EXPIRED: 'EXPIRED',
+};
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 500;
+
+/**
+ * Get open anomalies (oldest burn first) and counts per type
+ * GET /api/anomalies?type=PENDING_TOO_LONG|NO_ATTESTATION|RECEIVE_ERROR|NOT_MINTED|EXPIRED&limit=100
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const type = parseEnum(req.query.type, ANOMALY_TYPES, 'type');
+    const limit = parseInteger(req.query.limit, 'limit', 1, MAX_LIMIT) ?? DEFAULT_LIMIT;
+    const [anomalies, counts] = await Promise.all([getAnomalies(type, limit), getAnomalyCounts()]);
+    res.json({ counts, anomalies });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json(error.toJSON());
+    }
+    logger.error('Error fetching anomalies', error);
+    res.status(500).json({ error: 'Failed to fetch anomalies' });
+  }
+});
+
+export default router;
@@ -4,6 +4,13 @@
 
 import { Router, Request, Response } from 'express';
 import { testConnection } from '../config/database';
+import { getIndexGapSummary, getOpenIndexGaps } from '../database/client';
+import { getRpcPoolStatus } from '../services/RpcPool';
+import { getRateLimiterStatus } from '../services/RateLimiter';
+import { createLogger } from '../utils/logger';
+import { ValidationError, parseDomain, parseInteger } from '../utils/validation';
+
+const logger = createLogger('HealthRoutes');
 
 const router: Router = Router();
 
@@ -21,5 +28,52 @@ router.get('/', async (req: Request, res: Response) => {
   });
 });
 
+/**
+ * Outstanding index gaps (block ranges that failed to fetch and are awaiting retry)
+ * GET /api/health/gaps
+ * GET /api/health/gaps?domain=0&limit=50 - list open gaps for one chain
+ */
+router.get('/gaps', async (req: Request, res: Response) => {
+  try {
+    if (req.query.domain !== undefined) {
+      const domain = parseDomain(req.query.domain, 'domain')!;
+      const limit = parseInteger(req.query.limit, 'limit', 1, 500) ?? 50;
+      const gaps = await getOpenIndexGaps(domain, limit);
+      res.json(gaps.map(gap => ({
+        ...gap,
+        fromBlock: gap.fromBlock.toString(),
+        toBlock: gap.toBlock.toString(),
+      })));
+      return;
+    }
+
+    const summary = await getIndexGapSummary();
+    res.json(summary);
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json(error.toJSON());
+    }
+    logger.error('Error fetching index gaps', error);
+    res.status(500).json({ error: 'Failed to fetch index gaps' });
+  }
+});
+
+/**
+ * RPC endpoint stats per indexed chain (requests, errors, latency, cooldown, last reported head)
+ * URLs are reduced to their host since API keys are embedded in them
+ * GET /api/health/rpc
+ */
+router.get('/rpc', (req: Request, res: Response) => {
+  res.json(getRpcPoolStatus());
+});
+
+/**
+ * Rate limiter state per RPC provider (credits/s, credits available, queued and throttled requests)
+ * GET /api/health/rate-limits
+ */
+router.get('/rate-limits', (req: Request, res: Response) => {
+  res.json(getRateLimiterStatus());
+});
+
 export default router;
 
@@ -1,5 +1,10 @@
 /**
  * Metrics API routes - Simplified
+ *
+ * Time-based endpoints take either a preset (?period=, default 24h) or an explicit
+ * ISO 8601 range (?from=&to=, from inclusive, to exclusive and defaulting to now)
+ * Invalid parameters (unknown domain, period, mode or type, buckets outside 1-200) get a 400
+ * with { error, param }
  */
 
 import { Router, Request, Response } from 'express';
@@ -11,34 +16,93 @@ import {
   getChainOutgoingDetails,
   getChainIncomingDetails,
   getVolumeByPeriod,
-  getChainVolumeChart
+  getChainVolumeChart,
+  getLatencyMetrics,
+  getFeeMetrics,
+  getFeeRevenueByPeriod
 } from '../database/client';
+import { TransferMode } from '../types/transfer';
+import { MetricsPeriod, TimeRange } from '../types/metrics';
 import { createLogger } from '../utils/logger';
+import { ValidationError, parseDomain, parseEnum, parseInteger, parseTime } from '../utils/validation';
 
 const logger = createLogger('MetricsRoutes');
 const router: Router = Router();
 
-// Period mappings (minutes)
+// Rolling period presets (minutes); MetricsPeriod.CURRENT_MONTH is calendar based
 const PERIOD_MAP: Record<string, number> = {
   '1min': 1,
   '5min': 5,
   '15min': 15,
   '1h': 60,
   '4h': 240,
-  '24h': 1440,
+  [MetricsPeriod.LAST_24H]: 1440,
+  [MetricsPeriod.LAST_7D]: 7 * 1440,
+  [MetricsPeriod.LAST_30D]: 30 * 1440,
 };
 
+const PERIODS = [...Object.keys(PERIOD_MAP), MetricsPeriod.CURRENT_MONTH];
+
+const DEFAULT_BUCKETS = 20;
+const MAX_BUCKETS = 200;
+
+const CHART_TYPES = { OUTGOING: 'outgoing', INCOMING: 'incoming' } as const;
+
+function lastMinutes(minutes: number): TimeRange {
+  const to = new Date();
+  return { from: new Date(to.getTime() - minutes * 60000), to };
+}
+
+/**
+ * Time range from either ?period=<preset> (default 24h) or ?from=<ISO>&to=<ISO> (to defaults to now)
+ * 'month' runs from the start of the current UTC month until now
+ */
+function parseTimeRange(query: Request['query']): TimeRange {
+  const from = parseTime(query.from, 'from');
+  const to = parseTime(query.to, 'to');
+
+  if (from || to) {
+    if (query.period !== undefined) {
+      throw new ValidationError('period', 'cannot be combined with from/to');
+    }
+    if (!from) {
+      throw new ValidationError('from', 'required when to is set');
+    }
+    const range = { from, to: to ?? new Date() };
+    if (range.from >= range.to) {
+      throw new ValidationError('to', 'must be after from');
+    }
+    return range;
+  }
+
+  const period = query.period ?? MetricsPeriod.LAST_24H;
+  if (period === MetricsPeriod.CURRENT_MONTH) {
+    const now = new Date();
+    return { from: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)), to: now };
+  }
+  if (typeof period !== 'string' || !Object.keys(PERIOD_MAP).includes(period)) {
+    throw new ValidationError('period', `expected one of ${PERIODS.join(', ')}`);
+  }
+  return lastMinutes(PERIOD_MAP[period]);
+}
+
+function parseBuckets(value: unknown): number {
+  return parseInteger(value, 'buckets', 1, MAX_BUCKETS) ?? DEFAULT_BUCKETS;
+}
+
 /**
  * Get per-chain metrics for a specific period
- * GET /api/metrics/chains?period=1min|5min|15min|1h|4h|24h
+ * GET /api/metrics/chains?period=1min|5min|15min|1h|4h|24h|7d|30d|month&from=&to=&mode=FAST|STANDARD
  */
 router.get('/chains', async (req: Request, res: Response) => {
   try {
-    const period = req.query.period as string || '24h';
-    const intervalMinutes = PERIOD_MAP[period] || 1440;
-    const metrics = await getChainMinuteMetrics(intervalMinutes);
+    const range = parseTimeRange(req.query);
+    const metrics = await getChainMinuteMetrics(range, parseEnum(req.query.mode, TransferMode, 'mode'));
     res.json(metrics);
   } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json(error.toJSON());
+    }
     logger.error('Error fetching chain metrics', error);
     res.status(500).json({ error: 'Failed to fetch chain metrics' });
   }
@@ -50,7 +114,7 @@ router.get('/chains', async (req: Request, res: Response) => {
  */
 router.get('/chains/minute', async (req: Request, res: Response) => {
   try {
-    const metrics = await getChainMinuteMetrics(1);
+    const metrics = await getChainMinuteMetrics(lastMinutes(1));
     res.json(metrics);
   } catch (error) {
     logger.error('Error fetching chain minute metrics', error);
@@ -88,15 +152,17 @@ router.get('/total/in', async (req: Request, res: Response) => {
 
 /**
  * Get total volume (IN + OUT) for a specific period
- * GET /api/metrics/total?period=1min|5min|15min|1h|4h|24h
+ * GET /api/metrics/total?period=1min|5min|15min|1h|4h|24h|7d|30d|month&from=&to=
  */
 router.get('/total', async (req: Request, res: Response) => {
   try {
-    const period = req.query.period as string || '24h';
-    const intervalMinutes = PERIOD_MAP[period] || 1440;
-    const volume = await getTotalVolume(intervalMinutes);
+    const range = parseTimeRange(req.query);
+    const volume = await getTotalVolume(range);
     res.json(volume);
   } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json(error.toJSON());
+    }
     logger.error('Error fetching total volume', error);
     res.status(500).json({ error: 'Failed to fetch total volume' });
   }
@@ -104,16 +170,18 @@ router.get('/total', async (req: Request, res: Response) => {
 
 /**
  * Get outgoing details for a specific chain
- * GET /api/metrics/chain/:domain/outgoing?period=1min|5min|15min|1h|4h|24h
+ * GET /api/metrics/chain/:domain/outgoing?period=1min|5min|15min|1h|4h|24h|7d|30d|month&from=&to=&mode=FAST|STANDARD
  */
 router.get('/chain/:domain/outgoing', async (req: Request, res: Response) => {
   try {
-    const domain = parseInt(req.params.domain);
-    const period = req.query.period as string || '24h';
-    const intervalMinutes = PERIOD_MAP[period] || 1440;
-    const details = await getChainOutgoingDetails(domain, intervalMinutes);
+    const domain = parseDomain(req.params.domain, 'domain')!;
+    const range = parseTimeRange(req.query);
+    const details = await getChainOutgoingDetails(domain, range, parseEnum(req.query.mode, TransferMode, 'mode'));
     res.json(details);
   } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json(error.toJSON());
+    }
     logger.error('Error fetching chain outgoing details', error);
     res.status(500).json({ error: 'Failed to fetch chain outgoing details' });
   }
@@ -121,16 +189,18 @@ router.get('/chain/:domain/outgoing', async (req: Request, res: Response) => {
 
 /**
  * Get incoming details for a specific chain
- * GET /api/metrics/chain/:domain/incoming?period=1min|5min|15min|1h|4h|24h
+ * GET /api/metrics/chain/:domain/incoming?period=1min|5min|15min|1h|4h|24h|7d|30d|month&from=&to=&mode=FAST|STANDARD
  */
 router.get('/chain/:domain/incoming', async (req: Request, res: Response) => {
   try {
-    const domain = parseInt(req.params.domain);
-    const period = req.query.period as string || '24h';
-    const intervalMinutes = PERIOD_MAP[period] || 1440;
-    const details = await getChainIncomingDetails(domain, intervalMinutes);
+    const domain = parseDomain(req.params.domain, 'domain')!;
+    const range = parseTimeRange(req.query);
+    const details = await getChainIncomingDetails(domain, range, parseEnum(req.query.mode, TransferMode, 'mode'));
     res.json(details);
   } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json(error.toJSON());
+    }
     logger.error('Error fetching chain incoming details', error);
     res.status(500).json({ error: 'Failed to fetch chain incoming details' });
   }
@@ -138,16 +208,18 @@ router.get('/chain/:domain/incoming', async (req: Request, res: Response) => {
 
 /**
  * Get volume by time buckets for chart
- * GET /api/metrics/volume-chart?period=1min|5min|15min|1h|4h|24h&buckets=20
+ * GET /api/metrics/volume-chart?period=1min|5min|15min|1h|4h|24h|7d|30d|month&from=&to=&buckets=20&mode=FAST|STANDARD
  */
 router.get('/volume-chart', async (req: Request, res: Response) => {
   try {
-    const period = req.query.period as string || '24h';
-    const buckets = parseInt(req.query.buckets as string) || 20;
-    const intervalMinutes = PERIOD_MAP[period] || 1440;
-    const data = await getVolumeByPeriod(intervalMinutes, buckets);
+    const buckets = parseBuckets(req.query.buckets);
+    const range = parseTimeRange(req.query);
+    const data = await getVolumeByPeriod(range, buckets, parseEnum(req.query.mode, TransferMode, 'mode'));
     res.json(data);
   } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json(error.toJSON());
+    }
     logger.error('Error fetching volume chart data', error);
     res.status(500).json({ error: 'Failed to fetch volume chart data' });
   }
@@ -155,22 +227,79 @@ router.get('/volume-chart', async (req: Request, res: Response) => {
 
 /**
  * Get chain volume chart data (outgoing or incoming)
- * GET /api/metrics/chain/:domain/chart?period=1min|5min|15min|1h|4h|24h&type=outgoing|incoming&buckets=20
+ * GET /api/metrics/chain/:domain/chart?period=1min|5min|15min|1h|4h|24h|7d|30d|month&from=&to=&type=outgoing|incoming&buckets=20&mode=FAST|STANDARD
  */
 router.get('/chain/:domain/chart', async (req: Request, res: Response) => {
   try {
-    const domain = parseInt(req.params.domain);
-    const period = req.query.period as string || '24h';
-    const type = (req.query.type as string || 'outgoing') as 'outgoing' | 'incoming';
-    const buckets = parseInt(req.query.buckets as string) || 20;
-    const intervalMinutes = PERIOD_MAP[period] || 1440;
-    const data = await getChainVolumeChart(domain, intervalMinutes, type, buckets);
+    const domain = parseDomain(req.params.domain, 'domain')!;
+    const type = parseEnum(req.query.type, CHART_TYPES, 'type') ?? CHART_TYPES.OUTGOING;
+    const buckets = parseBuckets(req.query.buckets);
+    const range = parseTimeRange(req.query);
+    const data = await getChainVolumeChart(domain, range, type, buckets, parseEnum(req.query.mode, TransferMode, 'mode'));
     res.json(data);
   } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json(error.toJSON());
+    }
     logger.error('Error fetching chain volume chart data', error);
     res.status(500).json({ error: 'Failed to fetch chain volume chart data' });
   }
 });
 
+/**
+ * Get burn -> attestation -> mint latency (avg, p50, p95, p99) per mode and per route
+ * GET /api/metrics/latency?period=1min|5min|15min|1h|4h|24h|7d|30d|month&from=&to=
+ */
+router.get('/latency', async (req: Request, res: Response) => {
+  try {
+    const range = parseTimeRange(req.query);
+    const latency = await getLatencyMetrics(range);
+    res.json(latency);
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json(error.toJSON());
+    }
+    logger.error('Error fetching latency metrics', error);
+    res.status(500).json({ error: 'Failed to fetch latency metrics' });
+  }
+});
+
+/**
+ * Get fees collected on mints per destination and per route/mode, with effective fee bps vs maxFee bps
+ * GET /api/metrics/fees?period=1min|5min|15min|1h|4h|24h|7d|30d|month&from=&to=
+ */
+router.get('/fees', async (req: Request, res: Response) => {
+  try {
+    const range = parseTimeRange(req.query);
+    const fees = await getFeeMetrics(range);
+    res.json(fees);
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json(error.toJSON());
+    }
+    logger.error('Error fetching fee metrics', error);
+    res.status(500).json({ error: 'Failed to fetch fee metrics' });
+  }
+});
+
+/**
+ * Get fee revenue by time buckets for chart, split by mode
+ * GET /api/metrics/fees/chart?period=1min|5min|15min|1h|4h|24h|7d|30d|month&from=&to=&buckets=20
+ */
+router.get('/fees/chart', async (req: Request, res: Response) => {
+  try {
+    const buckets = parseBuckets(req.query.buckets);
+    const range = parseTimeRange(req.query);
+    const data = await getFeeRevenueByPeriod(range, buckets);
+    res.json(data);
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json(error.toJSON());
+    }
+    logger.error('Error fetching fee revenue chart data', error);
+    res.status(500).json({ error: 'Failed to fetch fee revenue chart data' });
+  }
+});
+
 export default router;
 
@@ -0,0 +1,98 @@
+/**
+ * Transfer routes
+ */
+
+import { Router, Request, Response } from 'express';
+import { getTransfers, getTransfersByTxHash } from '../database/client';
+import { TransferCursor, TransferFilters, TransferMode, TransferStatus } from '../types/transfer';
+import { createLogger } from '../utils/logger';
+import { ValidationError, parseAmount, parseDomain, parseEnum, parseInteger, parseTime } from '../utils/validation';
+
+const logger = createLogger('TransferRoutes');
+const router: Router = Router();
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+// Cursors are opaque to clients: base64url of "<sort time ISO>|<transfer id>"
+function encodeCursor(cursor: TransferCursor): string {
+  return Buffer.from(`${cursor.sortTime.toISOString()}|${cursor.transferId}`).toString('base64url');
+}
+
+function decodeCursor(value: string): TransferCursor {
+  const [time, transferId] = Buffer.from(value, 'base64url').toString().split('|');
+  const sortTime = new Date(time);
+  if (!transferId || isNaN(sortTime.getTime())) {
+    throw new ValidationError('cursor', 'not a cursor returned by this endpoint');
+  }
+  return { sortTime, transferId };
+}
+
+function parseFilters(query: Request['query']): TransferFilters {
+  return {
+    sourceDomain: parseDomain(query.sourceDomain, 'sourceDomain'),
+    destinationDomain: parseDomain(query.destinationDomain, 'destinationDomain'),
+    status: parseEnum(query.status, TransferStatus, 'status'),
+    mode: parseEnum(query.mode, TransferMode, 'mode'),
+    minAmount: parseAmount(query.minAmount, 'minAmount'),
+    maxAmount: parseAmount(query.maxAmount, 'maxAmount'),
+    from: parseTime(query.from, 'from'),
+    to: parseTime(query.to, 'to'),
+  };
+}
+
+/**
+ * List transfers, newest first by burn time (mint time when the burn was not indexed)
+ * Filters are optional and combined; amounts are in base units, from/to are ISO timestamps (from inclusive, to exclusive)
+ * Pass `nextCursor` from the previous response as `cursor` to get the next page
+ * GET /api/transfers?sourceDomain=0&destinationDomain=6&status=MINT_COMPLETE&mode=FAST&minAmount=&maxAmount=&from=&to=&limit=50&cursor=
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const filters = parseFilters(req.query);
+    const limit = parseInteger(req.query.limit, 'limit', 1, MAX_PAGE_SIZE) ?? DEFAULT_PAGE_SIZE;
+    const after = typeof req.query.cursor === 'string' ? decodeCursor(req.query.cursor) : undefined;
+
+    // One extra row tells whether there is a next page
+    const rows = await getTransfers(filters, limit + 1, after);
+    const page = rows.slice(0, limit);
+    const nextCursor = rows.length > limit ? encodeCursor(page[page.length - 1].cursor) : null;
+
+    res.json({ transfers: page.map(row => row.transfer), nextCursor });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json(error.toJSON());
+    }
+    logger.error('Error fetching transfers', error);
+    res.status(500).json({ error: 'Failed to fetch transfers' });
+  }
+});
+
+// EVM and Starknet hashes are stored lowercase; Solana signatures (base58) are case-sensitive
+function normalizeTxHash(value: string): string {
+  const trimmed = value.trim();
+  return /^0x[0-9a-fA-F]+$/.test(trimmed) ? trimmed.toLowerCase() : trimmed;
+}
+
+/**
+ * Find the transfers burned or minted in a transaction (burn or mint tx hash / Solana signature)
+ * Each result carries the current status and burn / attestation / mint timestamps when the transfer is linked
+ * GET /api/transfers/by-tx/:hash
+ */
+router.get('/by-tx/:hash', async (req: Request, res: Response) => {
+  try {
+    const txHash = normalizeTxHash(req.params.hash);
+    const results = await getTransfersByTxHash(txHash);
+
+    if (results.length === 0) {
+      return res.status(404).json({ error: 'No CCTP burn or mint found for this transaction' });
+    }
+
+    res.json({ txHash, results });
+  } catch (error) {
+    logger.error('Error fetching transfers by tx hash', error);
+    res.status(500).json({ error: 'Failed to fetch transfers by tx hash' });
+  }
+});
+
+export default router;
@@ -0,0 +1,187 @@
+/**
+ * Anomaly Detector
+ *
+ * Flags burned transfers that have not minted within their route's expected latency:
+ * - Expected latency = p95 burn -> mint of the route/mode over the last 7 days, or a per-mode default
+ *   when the route has too few completed transfers
+ * - A transfer is stuck once its age exceeds STUCK_LATENCY_MULTIPLIER x expected latency
+ * - The type follows the stage it is stuck at: MESSAGE_SENT -> NO_ATTESTATION,
+ *   ATTESTATION_PENDING -> PENDING_TOO_LONG, attested -> NOT_MINTED, ERROR -> RECEIVE_ERROR (any age)
+ * - Each cycle first marks transfers EXPIRED once their destination passed the expiration block;
+ *   they are reported as EXPIRED (any age) until minted or re-attested
+ *
+ * Only destinations that are indexed are checked: mints on other chains are never seen
+ */
+
+import { Transfer, TransferMode, TransferStatus } from '../types/transfer';
+import { AnomalyType, DetectedAnomaly } from '../types/metrics';
+import { expireTransfers, getRouteExpectedLatencies, getUnmintedTransfers, syncAnomalies } from '../database/client';
+import { getIndexableChains } from './indexerFactory';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('AnomalyDetector');
+
+// Detection interval (ms)
+const DETECTION_INTERVAL_MS = 60000;
+
+// Window and minimum sample size for a route's own expected latency
+const EXPECTED_LATENCY_LOOKBACK_MINUTES = 7 * 24 * 60;
+const MIN_ROUTE_SAMPLES = 10;
+
+// Expected latency for routes without enough history
+const DEFAULT_EXPECTED_LATENCY_MS: Record<TransferMode, number> = {
+  [TransferMode.FAST]: 2 * 60 * 1000,
+  [TransferMode.STANDARD]: 30 * 60 * 1000,
+};
+
+// Never flag transfers younger than this, whatever the route's history
+const MIN_STUCK_AGE_MS = 5 * 60 * 1000;
+
+const STUCK_LATENCY_MULTIPLIER = 3;
+
+const STAGE_ANOMALIES: Partial<Record<TransferStatus, AnomalyType>> = {
+  [TransferStatus.BURN_INITIATED]: 'NO_ATTESTATION',
+  [TransferStatus.MESSAGE_SENT]: 'NO_ATTESTATION',
+  [TransferStatus.ATTESTATION_PENDING]: 'PENDING_TOO_LONG',
+  [TransferStatus.ATTESTATION_COMPLETE]: 'NOT_MINTED',
+  [TransferStatus.RECEIVE_MESSAGE_PENDING]: 'NOT_MINTED',
+};
+
+const STAGE_DESCRIPTIONS: Record<AnomalyType, string> = {
+  NO_ATTESTATION: 'not seen as attested by Iris',
+  PENDING_TOO_LONG: 'attestation still pending',
+  NOT_MINTED: 'attested but not minted',
+  RECEIVE_ERROR: 'failed',
+  EXPIRED: 'expired',
+};
+
+const formatMinutes = (ms: number): string => `${Math.round(ms / 60000)}m`;
+
+export class AnomalyDetector {
+  private interval: NodeJS.Timeout | null = null;
+  private isRunning: boolean = false;
+  private isCycleRunning: boolean = false;
+
+  /**
+   * Start the detector
+   */
+  start(): void {
+    if (this.isRunning) {
+      logger.warn('Anomaly detector already running');
+      return;
+    }
+
+    logger.info(`Starting anomaly detector (every ${DETECTION_INTERVAL_MS / 1000}s)`);
+    this.isRunning = true;
+
+    this.runDetectionCycle();
+    this.interval = setInterval(() => {
+      this.runDetectionCycle();
+    }, DETECTION_INTERVAL_MS);
+  }
+
+  /**
+   * Stop the detector
+   */
+  stop(): void {
+    if (!this.isRunning) return;
+
+    logger.info('Stopping anomaly detector');
+    this.isRunning = false;
+
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  /**
+   * Classify unminted transfers and store the result
+   */
+  private async runDetectionCycle(): Promise<void> {
+    if (this.isCycleRunning) {
+      logger.warn('Previous anomaly detection still running, skipping');
+      return;
+    }
+
+    this.isCycleRunning = true;
+
+    try {
+      const expired = await expireTransfers();
+      if (expired.length > 0) {
+        logger.warn(`⌛ ${expired.length} transfers expired without a mint`);
+      }
+
+      const expected = new Map<string, number>();
+      for (const route of await getRouteExpectedLatencies(EXPECTED_LATENCY_LOOKBACK_MINUTES, MIN_ROUTE_SAMPLES)) {
+        expected.set(this.routeKey(route.sourceDomain, route.destinationDomain, route.mode), route.p95Ms);
+      }
+
+      const destinations = getIndexableChains().map(chain => chain.domainId);
+      const transfers = await getUnmintedTransfers(destinations, MIN_STUCK_AGE_MS / 60000);
+
+      const anomalies: DetectedAnomaly[] = [];
+      const now = Date.now();
+      for (const transfer of transfers) {
+        const expectedLatencyMs = expected.get(this.routeKey(transfer.sourceDomain, transfer.destinationDomain, transfer.mode))
+          ?? DEFAULT_EXPECTED_LATENCY_MS[transfer.mode];
+        const anomaly = this.classify(transfer, now - transfer.burnAt!.getTime(), expectedLatencyMs);
+        if (anomaly) {
+          anomalies.push(anomaly);
+        }
+      }
+
+      const { opened, resolved } = await syncAnomalies(anomalies);
+      if (opened > 0 || resolved > 0) {
+        logger.info(`🚨 ${anomalies.length} stuck transfers (${opened} new, ${resolved} resolved)`);
+      }
+    } catch (error) {
+      logger.error('Anomaly detection cycle failed', error);
+    } finally {
+      this.isCycleRunning = false;
+    }
+  }
+
+  private routeKey(sourceDomain: number, destinationDomain: number, mode: TransferMode): string {
+    return `${sourceDomain}-${destinationDomain}-${mode}`;
+  }
+
+  /**
+   * Anomaly for a transfer of the given age, or null if it is still within its expected latency
+   */
+  private classify(transfer: Transfer, ageMs: number, expectedLatencyMs: number): DetectedAnomaly | null {
+    const age = formatMinutes(ageMs);
+    const expectedWithin = formatMinutes(expectedLatencyMs);
+
+    if (transfer.status === TransferStatus.ERROR) {
+      return {
+        transferId: transfer.transferId,
+        type: 'RECEIVE_ERROR',
+        expectedLatencyMs,
+        description: `Burned ${age} ago, failed: ${transfer.errorReason || 'unknown error'}`,
+      };
+    }
+
+    if (transfer.status === TransferStatus.EXPIRED) {
+      return {
+        transferId: transfer.transferId,
+        type: 'EXPIRED',
+        expectedLatencyMs,
+        description: `Burned ${age} ago, expired: ${transfer.errorReason || 'attestation lapsed'}`,
+      };
+    }
+
+    const type = STAGE_ANOMALIES[transfer.status];
+    const threshold = Math.max(expectedLatencyMs * STUCK_LATENCY_MULTIPLIER, MIN_STUCK_AGE_MS);
+    if (!type || ageMs < threshold) {
+      return null;
+    }
+
+    return {
+      transferId: transfer.transferId,
+      type,
+      expectedLatencyMs,
+      description: `Burned ${age} ago, ${STAGE_DESCRIPTIONS[type]} (route usually completes within ${expectedWithin})`,
+    };
+  }
+}
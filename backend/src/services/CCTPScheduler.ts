@@ -2,69 +2,55 @@
  * CCTP Scheduler Service
  * 
  * Polls chains frequently to keep block gaps small
- * Compatible with QuickNode free tier (15 RPS limit)
  * 
  * Strategy:
  * - Poll every 5 seconds instead of 60 seconds
- * - Process chains round-robin to distribute load
- * - Small block ranges (stays within eth_getLogs limits)
- * - Global rate limiting across all chains
+ * - Index chains independently: each tick starts every chain whose previous run has finished,
+ *   so a slow or failing chain never delays the others
+ * - Block range per cycle set by each indexer (EVM: a multiple of the learned getLogs range)
+ * - Global rate limiting: RPC requests of every chain share per-provider token buckets
+ *   (services/RateLimiter), so concurrency stays within plan limits
  */
 
-import { MAINNET_CHAINS } from '../config/chains';
-import { VMType } from '../types/chain';
-import { EVMIndexer } from './EVMIndexer';
+import { ChainIndexer } from './ChainIndexer';
+import { createIndexer, getIndexableChains } from './indexerFactory';
+import { maskRpcUrl } from './RpcPool';
 import { createLogger } from '../utils/logger';
 
 const logger = createLogger('CCTPScheduler');
 
-// Safety buffer: don't index the last N blocks (to avoid reorgs)
-const FINALITY_BUFFER = 3n;
-
-// Max blocks to process per chain per cycle
-// Higher limit for faster catch-up, parallel burns/mints helps speed
-const MAX_BLOCKS_PER_CYCLE = 500n;
-
 // Blocks to index on first run (last ~500 blocks only to avoid too many RPC calls)
 // This is a small backfill to get recent data without overwhelming the RPC on startup
 const INITIAL_BACKFILL_BLOCKS = 500n;
 
-// Delay between chains (ms) - 300ms = ~3 chains/second, safe for 15 RPS limit
-const DELAY_BETWEEN_CHAINS_MS = 300;
+// Max index gaps to retry per chain per cycle (failed chunks from earlier cycles)
+const MAX_GAP_RETRIES_PER_CYCLE = 5;
 
 // Polling interval (ms) - frequent polling keeps block gaps small
 const POLL_INTERVAL_MS = 5000; // 5 seconds
 
-// Supported EVM chains (13 mainnet chains - Sei disabled due to RPC timeouts)
-const SUPPORTED_DOMAINS = [0, 1, 2, 3, 6, 7, 10, 11, 13, 14, 15, 19, 21];
-
 export class CCTPScheduler {
-  private indexers: Map<number, EVMIndexer> = new Map();
+  private indexers: Map<number, ChainIndexer> = new Map();
   private interval: NodeJS.Timeout | null = null;
   private isRunning: boolean = false;
-  private isCycleRunning: boolean = false;
-  private currentChainIndex: number = 0;
-
-  constructor(intervalSeconds: number = 5) {
-    // Initialize indexers for supported EVM chains
-    for (const [domainId, chain] of Object.entries(MAINNET_CHAINS)) {
-      const domain = parseInt(domainId);
-      if (chain.vmType === VMType.EVM && SUPPORTED_DOMAINS.includes(domain)) {
-        try {
-          const rpcUrl = chain.rpcUrl;
-          const maskedRpc = rpcUrl ? rpcUrl.substring(0, 50) + '...' : 'NOT SET';
-          logger.info(`Initializing indexer for ${chain.name} (domain ${domain}) - RPC: ${maskedRpc}`);
-
-          const indexer = new EVMIndexer(chain);
-          this.indexers.set(domain, indexer);
-          logger.info(`✅ Initialized ${chain.name} (domain ${domain})`);
-        } catch (error) {
-          logger.error(`❌ Failed to initialize ${chain.name} (domain ${domain})`, error);
-        }
+  private inFlight: Set<number> = new Set(); // domains with a run in progress
+
+  constructor() {
+    // Initialize indexers for chains flagged `indexed` in the chain config
+    for (const chain of getIndexableChains()) {
+      const domain = chain.domainId;
+      try {
+        const endpoints = chain.rpcEndpoints.map(endpoint => `${maskRpcUrl(endpoint.url)} (weight ${endpoint.weight})`);
+        logger.info(`Initializing indexer for ${chain.name} (domain ${domain}) - RPC: ${endpoints.join(', ') || 'NOT SET'}`);
+
+        this.indexers.set(domain, createIndexer(chain));
+        logger.info(`✅ Initialized ${chain.name} (domain ${domain})`);
+      } catch (error) {
+        logger.error(`❌ Failed to initialize ${chain.name} (domain ${domain})`, error);
       }
     }
 
-    logger.info(`✅ Initialized ${this.indexers.size} EVM chain indexers`);
+    logger.info(`✅ Initialized ${this.indexers.size} chain indexers`);
   }
 
   /**
@@ -103,114 +89,93 @@ export class CCTPScheduler {
     }
   }
 
-  /**
-   * Delay helper
-   */
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
-
   /**
    * Run one indexing cycle
-   * Processes all chains sequentially
+   * Starts a run for every chain that is not still busy with its previous one (rate limited per provider)
    */
-  private async runIndexingCycle(): Promise<void> {
-    // Skip if previous cycle still running
-    if (this.isCycleRunning) {
-      logger.warn('Previous cycle still running, skipping');
-      return;
-    }
+  private runIndexingCycle(): void {
+    const busy: string[] = [];
 
-    this.isCycleRunning = true;
-    const startTime = Date.now();
-    const indexerEntries = Array.from(this.indexers.entries());
+    for (const [domainId, indexer] of this.indexers.entries()) {
+      const chainName = indexer.name;
+      if (this.inFlight.has(domainId)) {
+        busy.push(chainName);
+        continue;
+      }
 
-    if (indexerEntries.length === 0) {
-      this.isCycleRunning = false;
-      return;
+      this.inFlight.add(domainId);
+      const startTime = Date.now();
+      this.indexChain(indexer, chainName)
+        .then(() => logger.debug(`${chainName}: Run complete in ${Date.now() - startTime}ms`))
+        .catch(error => logger.error(`${chainName}: Failed to index`, error))
+        .finally(() => this.inFlight.delete(domainId));
     }
 
-    logger.info(`🔄 Starting cycle (${indexerEntries.length} chains)`);
-
-    // Process all chains in sequence (with delays)
-    let successCount = 0;
-    let errorCount = 0;
-
-    try {
-      for (let i = 0; i < indexerEntries.length; i++) {
-        const [domainId, indexer] = indexerEntries[i];
-        const chainName = indexer.getChainName();
-
-        try {
-          await this.indexChain(indexer, domainId, chainName);
-          successCount++;
-        } catch (error) {
-          errorCount++;
-          logger.error(`${chainName}: Failed to index`, error);
-        }
-
-        // Delay between chains
-        if (i < indexerEntries.length - 1) {
-          await this.delay(DELAY_BETWEEN_CHAINS_MS);
-        }
-      }
-    } finally {
-      const duration = Date.now() - startTime;
-      logger.info(`✅ Cycle complete: ${successCount}/${indexerEntries.length} chains in ${duration}ms`);
-      this.isCycleRunning = false;
+    if (busy.length > 0) {
+      logger.debug(`Previous run still in progress, skipping: ${busy.join(', ')}`);
     }
   }
 
   /**
    * Index a single chain (limited block range)
    */
-  private async indexChain(indexer: EVMIndexer, domainId: number, chainName: string): Promise<void> {
-    try {
-      const lastBlock = await indexer.getLastProcessedBlock();
-      const currentBlock = await indexer.getCurrentBlock();
-      const safeBlock = currentBlock - FINALITY_BUFFER;
-
-      // No new blocks
-      if (safeBlock <= lastBlock) {
-        return;
-      }
+  private async indexChain(indexer: ChainIndexer, chainName: string): Promise<void> {
+    // Roll back orphaned blocks before indexing further
+    await indexer.handleReorg();
 
-      // Determine block range (limited to MAX_BLOCKS_PER_CYCLE)
-      let fromBlock: bigint;
-      if (lastBlock === 0n) {
-        // First run: index only last 1 hour to avoid too many RPC calls at startup
-        // This is a conservative estimate that covers most EVM chains
-        fromBlock = safeBlock > INITIAL_BACKFILL_BLOCKS
-          ? safeBlock - INITIAL_BACKFILL_BLOCKS
-          : 0n;
-        logger.info(`${chainName}: First run - indexing last ${INITIAL_BACKFILL_BLOCKS} blocks`);
-      } else {
-        fromBlock = lastBlock + 1n;
-      }
+    // Retry chunks that failed in earlier cycles
+    await indexer.retryGaps(MAX_GAP_RETRIES_PER_CYCLE);
 
-      // Limit the range
-      let toBlock = safeBlock;
-      if (toBlock - fromBlock > MAX_BLOCKS_PER_CYCLE) {
-        toBlock = fromBlock + MAX_BLOCKS_PER_CYCLE;
-      }
+    const lastBlock = await indexer.getCheckpoint();
+    // Safety buffer: latest - N, or the safe/finalized tag (per-chain finality setting)
+    const safeBlock = await indexer.getSafeHeight();
 
-      const blocksToProcess = Number(toBlock - fromBlock + 1n);
-      logger.debug(`${chainName}: Processing blocks ${fromBlock}-${toBlock} (${blocksToProcess} blocks)`);
+    // No new blocks
+    if (safeBlock <= lastBlock) {
+      return;
+    }
 
-      const result = await indexer.indexBlockRange(fromBlock, toBlock);
+    // Track the finalized head so volume can be split into provisional/finalized
+    await indexer.updateFinalizedHeight();
+
+    // Determine block range (limited to the indexer's max per cycle)
+    let fromBlock: bigint;
+    if (lastBlock === 0n) {
+      // First run: index only last 1 hour to avoid too many RPC calls at startup
+      // This is a conservative estimate that covers most EVM chains
+      fromBlock = safeBlock > INITIAL_BACKFILL_BLOCKS
+        ? safeBlock - INITIAL_BACKFILL_BLOCKS
+        : 0n;
+      logger.info(`${chainName}: First run - indexing last ${INITIAL_BACKFILL_BLOCKS} blocks`);
+    } else {
+      fromBlock = lastBlock + 1n;
+    }
 
-      // Log if we found events
-      if (result.burns > 0 || result.mints > 0) {
-        logger.info(`${chainName}: 🔥 ${result.burns} burns, 💵 ${result.mints} mints`);
-      }
+    // Limit the range
+    const maxBlocksPerCycle = await indexer.getMaxHeightsPerCycle();
+    let toBlock = safeBlock;
+    if (toBlock - fromBlock > maxBlocksPerCycle) {
+      toBlock = fromBlock + maxBlocksPerCycle;
+    }
 
-      // If we're behind, log it
-      const blocksRemaining = Number(safeBlock - toBlock);
-      if (blocksRemaining > 100) {
-        logger.warn(`${chainName}: Still ${blocksRemaining} blocks behind`);
-      }
-    } catch (error) {
-      throw error;
+    const blocksToProcess = Number(toBlock - fromBlock + 1n);
+    logger.debug(`${chainName}: Processing blocks ${fromBlock}-${toBlock} (${blocksToProcess} blocks)`);
+
+    const result = await indexer.indexRange(fromBlock, toBlock);
+
+    // Log if we found events
+    if (result.burns > 0 || result.mints > 0) {
+      logger.info(`${chainName}: 🔥 ${result.burns} burns, 💵 ${result.mints} mints`);
+    }
+
+    if (result.gaps > 0) {
+      logger.warn(`${chainName}: ${result.gaps} chunks failed, recorded as gaps`);
+    }
+
+    // If we're behind, log it
+    const blocksRemaining = Number(safeBlock - toBlock);
+    if (blocksRemaining > 100) {
+      logger.warn(`${chainName}: Still ${blocksRemaining} blocks behind`);
     }
   }
 
@@ -222,8 +187,8 @@ export class CCTPScheduler {
 
     for (const [domainId, indexer] of this.indexers.entries()) {
       try {
-        const lastBlock = await indexer.getLastProcessedBlock();
-        const currentBlock = await indexer.getCurrentBlock();
+        const lastBlock = await indexer.getCheckpoint();
+        const currentBlock = await indexer.getCurrentHeight();
         const behind = Number(currentBlock - lastBlock);
         status.set(domainId, { lastBlock, currentBlock, behind });
       } catch (error) {
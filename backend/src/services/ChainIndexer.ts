@@ -0,0 +1,190 @@
+/**
+ * Chain Indexer base class
+ *
+ * Contract the scheduler drives on every chain, whatever the VM:
+ * - name / getCurrentHeight / getSafeHeight: chain head
+ * - getCheckpoint / checkpoint: last indexed height
+ * - getMaxHeightsPerCycle: how far one cycle may index
+ * - indexRange: index a height range and advance the checkpoint
+ *
+ * Subclasses fetch and decode a range (collectRange); storage, gap bookkeeping
+ * and checkpoints are shared. Heights are block numbers, or slots on Solana.
+ */
+
+import { ChainMetadata, VMType } from '../types/chain';
+import { CollectedRange, IndexRangeResult } from '../types/indexer';
+import { pool } from '../config/database';
+import {
+  upsertTransfer,
+  insertBurns,
+  insertMints,
+  recordIndexGap,
+  getOpenIndexGaps,
+  resolveIndexGap,
+  recordIndexGapAttempt,
+} from '../database/client';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('ChainIndexer');
+
+// Max heights the scheduler indexes per chain per cycle, unless the indexer sizes it itself
+const DEFAULT_MAX_HEIGHTS_PER_CYCLE = 500n;
+
+export abstract class ChainIndexer {
+  protected readonly metadata: ChainMetadata;
+  protected readonly domainId: number;
+
+  constructor(metadata: ChainMetadata, vmType: VMType) {
+    if (metadata.vmType !== vmType) {
+      throw new Error(`${this.constructor.name} can only be used with ${vmType} chains, got ${metadata.vmType}`);
+    }
+
+    this.metadata = metadata;
+    this.domainId = metadata.domainId;
+  }
+
+  get name(): string {
+    return this.metadata.name;
+  }
+
+  /**
+   * Latest height known to the node
+   */
+  abstract getCurrentHeight(): Promise<bigint>;
+
+  /**
+   * Highest height the indexer may process, per the chain's finality setting
+   */
+  abstract getSafeHeight(): Promise<bigint>;
+
+  /**
+   * Height below which indexed data is final
+   */
+  protected abstract getFinalizedHeight(): Promise<bigint>;
+
+  /**
+   * Max heights the scheduler indexes per cycle
+   * Indexers whose fetch size adapts to the provider scale it with what the provider accepts
+   */
+  async getMaxHeightsPerCycle(): Promise<bigint> {
+    return DEFAULT_MAX_HEIGHTS_PER_CYCLE;
+  }
+
+  /**
+   * Fetch and decode burns, mints and transfer halves in [fromHeight, toHeight]
+   */
+  protected abstract collectRange(fromHeight: bigint, toHeight: bigint): Promise<CollectedRange>;
+
+  /**
+   * Roll back orphaned heights; returns the fork height, or null if no reorg
+   * Chains whose indexed head cannot be reverted keep the default
+   */
+  async handleReorg(): Promise<bigint | null> {
+    return null;
+  }
+
+  async getCheckpoint(): Promise<bigint> {
+    const result = await pool.query(
+      'SELECT get_checkpoint($1) as block',
+      [this.domainId]
+    );
+    return BigInt(result.rows[0].block);
+  }
+
+  /**
+   * Record `height` as indexed
+   */
+  protected async checkpoint(height: bigint): Promise<void> {
+    await pool.query(
+      'SELECT update_checkpoint($1, $2)',
+      [this.domainId, height.toString()]
+    );
+  }
+
+  /**
+   * Store the finalized height for provisional/finalized volume split
+   */
+  async updateFinalizedHeight(): Promise<bigint> {
+    const height = await this.getFinalizedHeight();
+    await pool.query(
+      'SELECT update_finalized_block($1, $2)',
+      [this.domainId, height.toString()]
+    );
+    return height;
+  }
+
+  /**
+   * Index a height range and advance the checkpoint
+   * Ranges that fail to fetch are recorded as index gaps and retried by retryGaps()
+   */
+  async indexRange(fromHeight: bigint, toHeight: bigint): Promise<IndexRangeResult> {
+    try {
+      const collected = await this.collectRange(fromHeight, toHeight);
+      await this.persistCollected(collected);
+
+      for (const chunk of collected.failedChunks) {
+        await recordIndexGap(this.domainId, chunk.fromBlock, chunk.toBlock, chunk.error);
+      }
+
+      // Failed chunks are tracked as gaps, not lost
+      await this.checkpoint(toHeight);
+
+      return {
+        burns: collected.burns.length,
+        mints: collected.mints.length,
+        gaps: collected.failedChunks.length,
+      };
+    } catch (error) {
+      logger.error(`${this.name}: Error indexing ${fromHeight}-${toHeight}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Re-index the oldest open gaps for this chain
+   * A gap is resolved only once its whole range has been fetched successfully
+   */
+  async retryGaps(limit: number): Promise<{ resolved: number; failed: number }> {
+    const gaps = await getOpenIndexGaps(this.domainId, limit);
+    let resolved = 0;
+    let failed = 0;
+
+    for (const gap of gaps) {
+      const collected = await this.collectRange(gap.fromBlock, gap.toBlock);
+      await this.persistCollected(collected);
+
+      if (collected.failedChunks.length === 0) {
+        await resolveIndexGap(gap.id);
+        resolved++;
+      } else {
+        await recordIndexGapAttempt(gap.id, collected.failedChunks[0].error);
+        failed++;
+      }
+    }
+
+    if (resolved > 0) {
+      logger.info(`${this.name}: ♻️ Resolved ${resolved} index gaps`);
+    }
+
+    return { resolved, failed };
+  }
+
+  /**
+   * Insert collected burns and mints and link transfer halves
+   */
+  protected async persistCollected({ burns, mints, transfers }: CollectedRange): Promise<void> {
+    if (burns.length > 0) {
+      await insertBurns(burns);
+      logger.info(`${this.name}: 🔥 ${burns.length} burns`);
+    }
+
+    if (mints.length > 0) {
+      await insertMints(mints);
+      logger.info(`${this.name}: 💵 ${mints.length} mints`);
+    }
+
+    for (const transfer of transfers) {
+      await upsertTransfer(transfer);
+    }
+  }
+}
@@ -1,29 +1,81 @@
 /**
  * EVM Indexer Service - Simplified
  * 
- * Uses TokenMessengerV2 contract only (same address on all chains)
+ * Uses TokenMessengerV2 and MessageTransmitterV2 contracts (same addresses on all chains)
  * Listens for:
  * - DepositForBurn event (OUT/BURN)
+ * - MessageSent event (source-side MessageV2, used to link the burn to its mint)
  * - MintAndWithdraw event (IN/MINT)
+ * - MessageReceived event (destination-side: source domain, nonce and burn message of each mint)
+ *
+ * A mint is paired with the MessageReceived that follows it in the same tx. Its transfer ID comes
+ * from the burned transfer with the same route and nonce, or else from the MessageV2 in the
+ * receiveMessage calldata (only decodable for direct receiveMessage calls)
+ *
+ * The eth_getLogs block range is learned per chain: it starts at the QuickNode free tier limit,
+ * doubles after full-size successes and is bisected when the provider rejects the range;
+ * the learned size is persisted so restarts keep it
+ *
+ * Only the four CCTP event topics are requested. Block timestamps come from a persistent cache,
+ * then from headers fetched in JSON-RPC batches (or interpolated between two anchor blocks on
+ * chains with a fixed block time)
+ *
+ * Requests go through the chain's RPC pool (services/RpcPool), which fails over between endpoints
  */
 
-import { createPublicClient, http, PublicClient, Address, decodeEventLog } from 'viem';
-import { ChainMetadata, VMType } from '../types/chain';
+import { createPublicClient, http, custom, PublicClient, Address, decodeEventLog, EIP1193Parameters, EIP1193RequestFn, HttpTransportConfig } from 'viem';
+import { ChainMetadata, VMType, FinalityTag } from '../types/chain';
+import { Transfer, TransferStatus, TokenType } from '../types/transfer';
+import { BurnRecord, MintRecord, CollectedRange, FailedRange } from '../types/indexer';
 import { pool } from '../config/database';
+import {
+  getCheckpointBlocks,
+  rollbackChainToBlock,
+  getLogRange,
+  updateLogRange,
+  getBlockTimestamps,
+  saveBlockTimestamps,
+  getTransferByNonce,
+} from '../database/client';
+import { ChainIndexer } from './ChainIndexer';
+import { RpcPool, getRpcPool } from './RpcPool';
 import { createLogger } from '../utils/logger';
+import {
+  MessageV2,
+  BurnMessageV2,
+  parseMessageV2,
+  parseBurnMessageV2,
+  computeTransferId,
+  isEmptyNonce,
+  getTransferMode,
+  bytes32ToEvmAddress,
+} from '../utils/cctpMessage';
+import { bytes32ToChainAddress, normalizeDestinationCaller, normalizeHookData } from '../utils/address';
 
 const logger = createLogger('EVMIndexer');
 
 // TokenMessengerV2 - same address on all EVM chains
 const TOKEN_MESSENGER_V2 = '0x28b5a0e9C621a5BadaA536219b3a228C8168cf5d' as Address;
 
+// MessageTransmitterV2 - same address on all EVM chains
+const MESSAGE_TRANSMITTER_V2 = '0x81D40F21F12A8F0E3252Bccb954D722d4c464B64' as Address;
+
 // Event signatures (topic0)
 const DEPOSIT_FOR_BURN_TOPIC = '0x0c8c1cbdc5190613ebd485511d4e2812cfa45eecb79d845893331fedad5130a5';
 const MINT_AND_WITHDRAW_TOPIC = '0x50c55e915134d457debfa58eb6f4342956f8b0616d51a89a3659360178e1ab63';
+const MESSAGE_SENT_TOPIC = '0x8c5261668696ce22758910d05bab8f186d6eb247ceac2af2e82c7dc17669b036';
+const MESSAGE_RECEIVED_TOPIC = '0xff48c13eda96b1cceacc6b9edeedc9e9db9d6226afbc30146b720c19d3addb1c';
+
+// getLogs range: starts at the QuickNode free tier limit, never grows past the max
+const INITIAL_BLOCKS_PER_LOG_QUERY = 5n;
+const MAX_BLOCKS_PER_LOG_QUERY = 10000n;
+
+// Once the learned getLogs range is large, a scheduler cycle covers this many full-size queries
+const LOG_QUERIES_PER_CYCLE = 10n;
 
-// QuickNode free tier limits
-const MAX_BLOCKS_PER_LOG_QUERY = 5n;
-const DELAY_BETWEEN_RPC_CALLS_MS = 50;
+// Block headers per JSON-RPC batch, and how long cached block timestamps are kept
+const HEADER_BATCH_SIZE = 50;
+const BLOCK_TIMESTAMP_RETENTION_DAYS = 7;
 
 // ABIs for decoding
 const DEPOSIT_FOR_BURN_ABI = {
@@ -43,6 +95,27 @@ const DEPOSIT_FOR_BURN_ABI = {
   ],
 } as const;
 
+const MESSAGE_SENT_ABI = {
+  type: 'event',
+  name: 'MessageSent',
+  inputs: [
+    { name: 'message', type: 'bytes', indexed: false },
+  ],
+} as const;
+
+const MESSAGE_RECEIVED_ABI = {
+  type: 'event',
+  name: 'MessageReceived',
+  inputs: [
+    { name: 'caller', type: 'address', indexed: true },
+    { name: 'sourceDomain', type: 'uint32', indexed: false },
+    { name: 'nonce', type: 'bytes32', indexed: true },
+    { name: 'sender', type: 'bytes32', indexed: false },
+    { name: 'finalityThresholdExecuted', type: 'uint32', indexed: true },
+    { name: 'messageBody', type: 'bytes', indexed: false },
+  ],
+} as const;
+
 const MINT_AND_WITHDRAW_ABI = {
   type: 'event',
   name: 'MintAndWithdraw',
@@ -54,58 +127,128 @@ const MINT_AND_WITHDRAW_ABI = {
   ],
 } as const;
 
-interface BurnRecord {
-  chainDomain: number;
-  destinationDomain: number;
-  amount: string;
-  token: string;
-  blockTime: Date;
-  txHash: string;
-  blockNumber: bigint;
-  logIndex: number;
+// Providers reject oversized getLogs ranges with -32615 or a range / result count message
+function isRangeLimitError(error: any): boolean {
+  for (let current = error; current; current = current.cause) {
+    if (current.code === -32615) return true;
+    const text = `${current.message ?? ''} ${current.details ?? ''}`.toLowerCase();
+    if (/range|too many (results|logs)|more than \d+ results|response size/.test(text)) {
+      return true;
+    }
+  }
+  return false;
 }
 
-interface MintRecord {
-  chainDomain: number;
-  sourceDomain: number;
-  amount: string;
-  token: string;
-  mintRecipient: string;
-  blockTime: Date;
-  txHash: string;
-  blockNumber: bigint;
+// Raw message plus its parsed header, as seen on either side of a transfer
+interface IndexedMessage {
+  raw: string;
+  parsed: MessageV2;
+}
+
+// MessageReceived, emitted by MessageTransmitterV2 after the TokenMessengerV2 mint it triggered
+interface ReceivedMessage {
   logIndex: number;
+  sourceDomain: number;
+  nonce: string;
+  finalityThresholdExecuted: number;
+  messageBody: string;
+  burnMessage: BurnMessageV2 | null;
 }
 
-export class EVMIndexer {
-  private client: PublicClient;
-  private metadata: ChainMetadata;
-  private domainId: number;
+// Transfer a mint belongs to, with the finality threshold requested at burn time
+interface MintLink {
+  transferId: string;
+  minFinalityThreshold: number;
+}
 
-  constructor(metadata: ChainMetadata) {
-    if (metadata.vmType !== VMType.EVM) {
-      throw new Error(`EVMIndexer can only be used with EVM chains, got ${metadata.vmType}`);
+// Take the first MessageReceived after a mint in its tx whose burn message pays the same recipient
+function takeReceivedMessage(received: ReceivedMessage[] | undefined, mintLogIndex: number, mintRecipient: string): ReceivedMessage | null {
+  const index = received?.findIndex(message =>
+    message.logIndex > mintLogIndex
+    && message.burnMessage !== null
+    && bytes32ToEvmAddress(message.burnMessage.mintRecipient) === mintRecipient
+  ) ?? -1;
+  return index === -1 ? null : received!.splice(index, 1)[0];
+}
+
+// viem client sending each request through the pool, over one http transport per endpoint;
+// the pool handles failover, viem retries once every endpoint failed
+// Endpoint heads are reported from the block the chain follows: eth_blockNumber on LATEST chains,
+// the safe/finalized tagged block otherwise (tags lag each other too much to be compared)
+function createPooledClient(rpcPool: RpcPool, finality: FinalityTag, batch: HttpTransportConfig['batch']): PublicClient {
+  const transports = new Map<string, EIP1193RequestFn>();
+  const requestFor = (url: string): EIP1193RequestFn => {
+    let request = transports.get(url);
+    if (!request) {
+      request = http(url, { batch, retryCount: 0, timeout: 60000 })({}).request; // 60s timeout for slow chains
+      transports.set(url, request);
     }
+    return request;
+  };
+
+  return createPublicClient({
+    transport: custom({
+      request: (args: EIP1193Parameters) => rpcPool.request(args.method, async endpoint => {
+        const result = await requestFor(endpoint.url)(args);
+        if (finality === FinalityTag.LATEST && args.method === 'eth_blockNumber') {
+          rpcPool.reportHead(endpoint, BigInt(result as string));
+        } else if (finality !== FinalityTag.LATEST && args.method === 'eth_getBlockByNumber' && (args.params as unknown[] | undefined)?.[0] === finality) {
+          const block = result as { number?: string } | null;
+          if (block?.number) rpcPool.reportHead(endpoint, BigInt(block.number));
+        }
+        return result;
+      }),
+    }, { retryCount: 5, retryDelay: 2000 }),
+  });
+}
 
-    this.metadata = metadata;
-    this.domainId = metadata.domainId;
+export class EVMIndexer extends ChainIndexer {
+  private client: PublicClient;
+  private batchClient: PublicClient; // concurrent requests are sent as JSON-RPC batches
 
-    this.client = createPublicClient({
-      transport: http(metadata.rpcUrl, {
-        batch: false,
-        retryCount: 5,
-        retryDelay: 2000,
-        timeout: 60000, // 60s timeout for slow chains
-      }),
-    });
+  // Learned getLogs range (loaded from the database on first use), the largest range that
+  // succeeded and the smallest that was rejected
+  private logRange: bigint | null = null;
+  private logRangeFloor: bigint = 0n;
+  private logRangeCeiling: bigint | null = null;
+
+  constructor(metadata: ChainMetadata) {
+    super(metadata, VMType.EVM);
+
+    const rpcPool = getRpcPool(metadata);
+    this.client = createPooledClient(rpcPool, metadata.finality, false);
+    this.batchClient = createPooledClient(rpcPool, metadata.finality, { batchSize: HEADER_BATCH_SIZE, wait: 0 });
   }
 
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  /**
+   * Resolve the transfer a received message belongs to
+   * The burned transfer with the same route and nonce is used when indexed and attested; otherwise
+   * the full MessageV2 is decoded from receiveMessage calldata and must carry the same nonce
+   */
+  private async linkReceivedMessage(
+    received: ReceivedMessage,
+    txHash: string,
+    txMessageCache: Map<string, IndexedMessage | null>
+  ): Promise<MintLink | null> {
+    const transfer = await getTransferByNonce(received.sourceDomain, this.domainId, received.nonce);
+    if (transfer) {
+      return { transferId: transfer.transferId, minFinalityThreshold: transfer.minFinalityThreshold };
+    }
+
+    let message = txMessageCache.get(txHash);
+    if (message === undefined) {
+      message = await this.decodeMessageFromTx(txHash);
+      txMessageCache.set(txHash, message);
+    }
+
+    if (!message || message.parsed.nonce !== received.nonce || message.parsed.sourceDomain !== received.sourceDomain) {
+      return null;
+    }
+    return { transferId: computeTransferId(message.raw), minFinalityThreshold: message.parsed.minFinalityThreshold };
   }
 
   /**
-   * Decode sourceDomain from transaction calldata
+   * Decode the received MessageV2 from transaction calldata
    * receiveMessage(bytes message, bytes attestation) calldata format:
    * - function selector (4 bytes)
    * - offset to message (32 bytes)
@@ -113,9 +256,9 @@ export class EVMIndexer {
    * - message length (32 bytes)
    * - message data (variable)
    * 
-   * MessageV2 format: version(4) + sourceDomain(4) + destinationDomain(4) + nonce(8) + sender(32) + messageBody(variable)
+   * See utils/cctpMessage for the MessageV2 layout
    */
-  private async decodeSourceDomainFromTx(txHash: string): Promise<number | null> {
+  private async decodeMessageFromTx(txHash: string): Promise<IndexedMessage | null> {
     try {
       const tx = await this.client.getTransaction({ hash: txHash as `0x${string}` });
       if (!tx.input || tx.input === '0x' || tx.input.length < 10) {
@@ -141,263 +284,489 @@ export class EVMIndexer {
         return null; // Not enough data for message length
       }
       
-      // Next 32 bytes = length of messageBody
+      // Next 32 bytes = length of message
       const msgLen = parseInt(body.slice(msgPos, msgPos + 64), 16);
       
       if (body.length < msgPos + 64 + msgLen * 2) {
-        return null; // Not enough data for messageBody
+        return null; // Not enough data for message
       }
       
-      // Extract messageBody hex
-      const msgBodyHex = body.slice(msgPos + 64, msgPos + 64 + msgLen * 2);
+      // Extract message hex
+      const raw = '0x' + body.slice(msgPos + 64, msgPos + 64 + msgLen * 2);
+      const parsed = parseMessageV2(raw);
       
-      if (msgBodyHex.length < 16) {
-        return null; // Not enough data for sourceDomain
-      }
-      
-      // Parse MessageV2 header: version(4) + sourceDomain(4) + destinationDomain(4) + ...
-      // sourceDomain is at bytes 4-8 (hex chars 8-16)
-      const sourceDomainHex = msgBodyHex.slice(8, 16);
-      const sourceDomain = parseInt(sourceDomainHex, 16);
-      
-      return sourceDomain;
+      return parsed ? { raw, parsed } : null;
     } catch (error) {
-      logger.debug(`${this.metadata.name}: Failed to decode sourceDomain from tx ${txHash}: ${error}`);
+      logger.debug(`${this.metadata.name}: Failed to decode message from tx ${txHash}: ${error}`);
       return null;
     }
   }
 
-  async getLastProcessedBlock(): Promise<bigint> {
-    const result = await pool.query(
-      'SELECT get_checkpoint($1) as block',
-      [this.domainId]
-    );
-    return BigInt(result.rows[0].block);
+  /**
+   * Scales with the learned getLogs range, so a grown range is not capped by the default cycle size
+   */
+  async getMaxHeightsPerCycle(): Promise<bigint> {
+    const defaultMax = await super.getMaxHeightsPerCycle();
+    const byLogRange = (await this.loadLogRange()) * LOG_QUERIES_PER_CYCLE;
+    return byLogRange > defaultMax ? byLogRange : defaultMax;
+  }
+
+  private async loadLogRange(): Promise<bigint> {
+    if (this.logRange === null) {
+      this.logRange = (await getLogRange(this.domainId)) ?? INITIAL_BLOCKS_PER_LOG_QUERY;
+      logger.info(`${this.metadata.name}: getLogs range ${this.logRange} blocks`);
+    }
+    return this.logRange;
+  }
+
+  /**
+   * A range of `size` blocks succeeded: grow the window if it was used in full
+   * Grows by doubling until a range was rejected, then halfway towards the rejected size
+   */
+  private growLogRange(size: bigint): void {
+    if (size > this.logRangeFloor) {
+      this.logRangeFloor = size;
+    }
+    if (this.logRange === null || size < this.logRange) {
+      return;
+    }
+
+    let next = this.logRangeCeiling === null ? size * 2n : (size + this.logRangeCeiling) / 2n;
+    if (next > MAX_BLOCKS_PER_LOG_QUERY) {
+      next = MAX_BLOCKS_PER_LOG_QUERY;
+    }
+    if (next > size) {
+      this.logRange = next;
+    }
+  }
+
+  /**
+   * The provider rejected a range of `size` blocks: halve it, or fall back to the largest
+   * range known to work if that is bigger
+   */
+  private shrinkLogRange(size: bigint): void {
+    this.logRangeCeiling = size;
+    if (this.logRangeFloor >= size) {
+      // The provider got stricter; what worked before no longer does
+      this.logRangeFloor = 0n;
+    }
+
+    const halved = size / 2n > 0n ? size / 2n : 1n;
+    this.logRange = halved > this.logRangeFloor ? halved : this.logRangeFloor;
+  }
+
+  /**
+   * Fill `blockTimes` for the given blocks: from the persistent cache, then interpolated
+   * (estimateTimestamps chains) or fetched in batches; new timestamps are cached
+   */
+  private async resolveBlockTimes(blockNumbers: bigint[], blockTimes: Map<bigint, Date>): Promise<void> {
+    let missing = [...new Set(blockNumbers)].filter(blockNumber => !blockTimes.has(blockNumber));
+    if (missing.length === 0) return;
+
+    const cached = await getBlockTimestamps(this.domainId, missing);
+    cached.forEach((blockTime, blockNumber) => blockTimes.set(blockNumber, blockTime));
+    missing = missing.filter(blockNumber => !cached.has(blockNumber));
+    if (missing.length === 0) return;
+
+    const estimated = this.metadata.estimateTimestamps ? await this.estimateBlockTimes(missing) : null;
+    const resolved = estimated ?? await this.fetchBlockTimes(missing);
+    resolved.forEach((blockTime, blockNumber) => blockTimes.set(blockNumber, blockTime));
+    await saveBlockTimestamps(this.domainId, resolved, BLOCK_TIMESTAMP_RETENTION_DAYS);
+  }
+
+  /**
+   * Fetch block headers in JSON-RPC batches of HEADER_BATCH_SIZE
+   */
+  private async fetchBlockTimes(blockNumbers: bigint[]): Promise<Map<bigint, Date>> {
+    const blockTimes = new Map<bigint, Date>();
+
+    for (let i = 0; i < blockNumbers.length; i += HEADER_BATCH_SIZE) {
+      const batch = blockNumbers.slice(i, i + HEADER_BATCH_SIZE);
+      const blocks = await Promise.all(batch.map(blockNumber => this.batchClient.getBlock({ blockNumber })));
+      blocks.forEach((block, index) => blockTimes.set(batch[index], new Date(Number(block.timestamp) * 1000)));
+    }
+
+    return blockTimes;
+  }
+
+  /**
+   * Interpolate timestamps between the lowest and highest block
+   * Returns null (fetch every header instead) unless the anchors are exactly blockTime apart per block
+   */
+  private async estimateBlockTimes(blockNumbers: bigint[]): Promise<Map<bigint, Date> | null> {
+    // Two anchors cost as much as fetching two blocks
+    if (blockNumbers.length <= 2) return null;
+
+    const sorted = [...blockNumbers].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+    const first = sorted[0];
+    const last = sorted[sorted.length - 1];
+    const anchors = await this.fetchBlockTimes([first, last]);
+    const firstTime = anchors.get(first)!.getTime();
+    const lastTime = anchors.get(last)!.getTime();
+
+    if (lastTime - firstTime !== Number(last - first) * this.metadata.blockTime) {
+      logger.debug(`${this.metadata.name}: Blocks ${first}-${last} do not follow the ${this.metadata.blockTime}ms block time, fetching headers`);
+      return null;
+    }
+
+    return new Map(sorted.map(blockNumber => [
+      blockNumber,
+      new Date(firstTime + Number(blockNumber - first) * this.metadata.blockTime),
+    ]));
   }
 
-  async updateCheckpoint(blockNumber: bigint): Promise<void> {
+  /**
+   * Record the checkpoint with its block hash so the next cycle can detect a reorg of this range
+   */
+  protected async checkpoint(blockNumber: bigint): Promise<void> {
+    const block = await this.client.getBlock({ blockNumber });
     await pool.query(
-      'SELECT update_checkpoint($1, $2)',
-      [this.domainId, blockNumber.toString()]
+      'SELECT update_checkpoint_with_hash($1, $2, $3)',
+      [this.domainId, blockNumber.toString(), block.hash]
     );
   }
 
   /**
-   * Fetch all TokenMessengerV2 logs and separate burns from mints
+   * Detect whether recently indexed blocks were orphaned and roll back if so
+   * Compares recorded checkpoint hashes (newest first) with the canonical chain;
+   * the first match is the fork point. Returns the fork block, or null if no reorg.
    */
-  async indexBlockRange(fromBlock: bigint, toBlock: bigint): Promise<{ burns: number; mints: number }> {
-    const burns: BurnRecord[] = [];
-    const mints: MintRecord[] = [];
-    const blockTimestamps = new Map<bigint, Date>();
-    const txSourceDomainCache = new Map<string, number | null>(); // Cache for sourceDomain lookups
+  async handleReorg(): Promise<bigint | null> {
+    const checkpoints = await getCheckpointBlocks(this.domainId);
+    if (checkpoints.length === 0) {
+      return null;
+    }
 
-    try {
-      // Chunk the request into small ranges
-      let currentFrom = fromBlock;
+    const latest = checkpoints[0];
+    const canonical = await this.client.getBlock({ blockNumber: latest.blockNumber });
+    if (canonical.hash === latest.blockHash) {
+      return null;
+    }
+
+    logger.warn(`${this.metadata.name}: ⚠️ Reorg detected at block ${latest.blockNumber} (stored ${latest.blockHash}, canonical ${canonical.hash})`);
+
+    // Walk back to the newest checkpoint still on the canonical chain
+    let forkBlock: bigint | null = null;
+    for (const checkpoint of checkpoints.slice(1)) {
+      const block = await this.client.getBlock({ blockNumber: checkpoint.blockNumber });
+      if (block.hash === checkpoint.blockHash) {
+        forkBlock = checkpoint.blockNumber;
+        break;
+      }
+    }
+
+    if (forkBlock === null) {
+      // Reorg deeper than recorded history - re-index from before the oldest checkpoint
+      const oldest = checkpoints[checkpoints.length - 1].blockNumber;
+      forkBlock = oldest > BigInt(this.metadata.confirmations) ? oldest - BigInt(this.metadata.confirmations) : 0n;
+      logger.error(`${this.metadata.name}: Reorg deeper than recorded checkpoints, rolling back to ${forkBlock}`);
+    }
 
-      while (currentFrom <= toBlock) {
-        const currentTo = currentFrom + MAX_BLOCKS_PER_LOG_QUERY - 1n > toBlock
-          ? toBlock
-          : currentFrom + MAX_BLOCKS_PER_LOG_QUERY - 1n;
+    const removed = await rollbackChainToBlock(this.domainId, forkBlock);
+    logger.warn(`${this.metadata.name}: Rolled back to block ${forkBlock} (removed ${removed.burns} burns, ${removed.mints} mints)`);
 
+    return forkBlock;
+  }
+
+  /**
+   * Fetch the CCTP TokenMessengerV2 and MessageTransmitterV2 logs, separate burns from mints
+   * and build the burn/mint halves of each transfer
+   */
+  protected async collectRange(fromBlock: bigint, toBlock: bigint): Promise<CollectedRange> {
+    const burns: BurnRecord[] = [];
+    const mints: MintRecord[] = [];
+    const transfers: Transfer[] = [];
+    const failedChunks: FailedRange[] = [];
+    const blockTimestamps = new Map<bigint, Date>();
+    const txMessageCache = new Map<string, IndexedMessage | null>(); // Cache for receiveMessage lookups
+    const sentMessages = new Map<string, IndexedMessage[]>(); // MessageSent per tx, consumed by DepositForBurn
+
+    // Chunk the request into ranges the provider accepts
+    const savedLogRange = await this.loadLogRange();
+    let currentFrom = fromBlock;
+
+    while (currentFrom <= toBlock) {
+      const logRange = this.logRange ?? savedLogRange;
+      const currentTo = currentFrom + logRange - 1n > toBlock
+        ? toBlock
+        : currentFrom + logRange - 1n;
+
+      try {
+        // DepositForBurn / MintAndWithdraw (TokenMessengerV2) and MessageSent / MessageReceived (MessageTransmitterV2) logs only
+        let logs;
         try {
-          // Get ALL logs from TokenMessengerV2 (no topic filter)
-          const logs = await this.client.getLogs({
-            address: TOKEN_MESSENGER_V2,
+          logs = await this.client.getLogs({
+            address: [TOKEN_MESSENGER_V2, MESSAGE_TRANSMITTER_V2],
+            events: [DEPOSIT_FOR_BURN_ABI, MESSAGE_SENT_ABI, MINT_AND_WITHDRAW_ABI, MESSAGE_RECEIVED_ABI],
             fromBlock: currentFrom,
             toBlock: currentTo,
           });
+          this.growLogRange(currentTo - currentFrom + 1n);
+        } catch (error) {
+          // Range rejected: bisect and retry the same start block; a single block that fails is a gap
+          if (isRangeLimitError(error) && currentTo > currentFrom) {
+            this.shrinkLogRange(currentTo - currentFrom + 1n);
+            logger.warn(`${this.metadata.name}: Range [${currentFrom}-${currentTo}] rejected, getLogs range now ${this.logRange} blocks`);
+            continue;
+          }
+          throw error;
+        }
 
-          // Process each log
-          for (const log of logs) {
-            if (!log.topics[0] || !log.transactionHash || log.blockNumber === null) continue;
-
-            const topic0 = log.topics[0].toLowerCase();
+        await this.resolveBlockTimes(
+          logs.flatMap(log => (log.blockNumber === null ? [] : [log.blockNumber])),
+          blockTimestamps
+        );
+
+        // MessageReceived per tx, consumed by the MintAndWithdraw it follows
+        const receivedMessages = new Map<string, ReceivedMessage[]>();
+        for (const log of logs) {
+          if (log.topics[0]?.toLowerCase() !== MESSAGE_RECEIVED_TOPIC || !log.transactionHash) continue;
+          try {
+            const decoded = decodeEventLog({
+              abi: [MESSAGE_RECEIVED_ABI],
+              data: log.data,
+              topics: log.topics,
+            });
+
+            const list = receivedMessages.get(log.transactionHash) || [];
+            list.push({
+              logIndex: log.logIndex ?? 0,
+              sourceDomain: Number(decoded.args.sourceDomain),
+              nonce: decoded.args.nonce.toLowerCase(),
+              finalityThresholdExecuted: Number(decoded.args.finalityThresholdExecuted),
+              messageBody: decoded.args.messageBody,
+              burnMessage: parseBurnMessageV2(decoded.args.messageBody),
+            });
+            receivedMessages.set(log.transactionHash, list);
+          } catch (e) {
+            logger.debug(`${this.metadata.name}: Failed to decode MessageReceived: ${e}`);
+          }
+        }
 
-            // Get block timestamp if not cached
-            if (!blockTimestamps.has(log.blockNumber)) {
-              try {
-                const block = await this.client.getBlock({ blockNumber: log.blockNumber });
-                blockTimestamps.set(log.blockNumber, new Date(Number(block.timestamp) * 1000));
-              } catch {
-                blockTimestamps.set(log.blockNumber, new Date());
+        // Process each log
+        for (const log of logs) {
+          if (!log.topics[0] || !log.transactionHash || log.blockNumber === null) continue;
+
+          const topic0 = log.topics[0].toLowerCase();
+
+          const blockTime = blockTimestamps.get(log.blockNumber)!;
+
+          if (topic0 === MESSAGE_SENT_TOPIC.toLowerCase()) {
+            // Parse MessageSent event (emitted right before DepositForBurn in the same tx)
+            try {
+              const decoded = decodeEventLog({
+                abi: [MESSAGE_SENT_ABI],
+                data: log.data,
+                topics: log.topics,
+              });
+
+              const raw = decoded.args.message;
+              const parsed = parseMessageV2(raw);
+              if (parsed) {
+                const queue = sentMessages.get(log.transactionHash) || [];
+                queue.push({ raw, parsed });
+                sentMessages.set(log.transactionHash, queue);
               }
+            } catch (e) {
+              logger.debug(`${this.metadata.name}: Failed to decode MessageSent: ${e}`);
             }
-            const blockTime = blockTimestamps.get(log.blockNumber) || new Date();
-
-            if (topic0 === DEPOSIT_FOR_BURN_TOPIC.toLowerCase()) {
-              // Parse DepositForBurn event
-              try {
-                const decoded = decodeEventLog({
-                  abi: [DEPOSIT_FOR_BURN_ABI],
-                  data: log.data,
-                  topics: log.topics,
-                });
-
-                const args = decoded.args as any;
-                burns.push({
-                  chainDomain: this.domainId,
+          } else if (topic0 === DEPOSIT_FOR_BURN_TOPIC.toLowerCase()) {
+            // Parse DepositForBurn event
+            try {
+              const decoded = decodeEventLog({
+                abi: [DEPOSIT_FOR_BURN_ABI],
+                data: log.data,
+                topics: log.topics,
+              });
+
+              const args = decoded.args as any;
+              const message = sentMessages.get(log.transactionHash)?.shift();
+              const transferId = message ? computeTransferId(message.raw) : null;
+              const nonce = message && !isEmptyNonce(message.parsed.nonce) ? message.parsed.nonce : null;
+
+              burns.push({
+                chainDomain: this.domainId,
+                destinationDomain: Number(args.destinationDomain),
+                amount: args.amount.toString(),
+                token: 'USDC',
+                blockTime,
+                txHash: log.transactionHash,
+                blockNumber: log.blockNumber,
+                logIndex: log.logIndex ?? 0,
+                nonce,
+                transferId,
+                minFinalityThreshold: Number(args.minFinalityThreshold),
+                maxFee: args.maxFee.toString(),
+                mode: getTransferMode(Number(args.minFinalityThreshold)),
+                depositor: args.depositor.toLowerCase(),
+                mintRecipient: bytes32ToChainAddress(args.mintRecipient, Number(args.destinationDomain)),
+                destinationCaller: normalizeDestinationCaller(args.destinationCaller, Number(args.destinationDomain)),
+                hookData: normalizeHookData(args.hookData),
+              });
+
+              if (message && transferId) {
+                transfers.push({
+                  transferId,
+                  sourceDomain: this.domainId,
                   destinationDomain: Number(args.destinationDomain),
+                  mode: getTransferMode(Number(args.minFinalityThreshold)),
+                  tokenType: TokenType.USDC,
                   amount: args.amount.toString(),
-                  token: 'USDC',
-                  blockTime,
-                  txHash: log.transactionHash,
-                  blockNumber: log.blockNumber,
-                  logIndex: log.logIndex ?? 0,
-                });
-              } catch (e) {
-                logger.debug(`${this.metadata.name}: Failed to decode DepositForBurn: ${e}`);
-              }
-            } else if (topic0 === MINT_AND_WITHDRAW_TOPIC.toLowerCase()) {
-              // Parse MintAndWithdraw event
-              try {
-                const decoded = decodeEventLog({
-                  abi: [MINT_AND_WITHDRAW_ABI],
-                  data: log.data,
-                  topics: log.topics,
-                });
-
-                const args = decoded.args as any;
-                const txHash = log.transactionHash;
-                
-                // Get sourceDomain from transaction calldata (with caching)
-                let sourceDomain = txSourceDomainCache.get(txHash);
-                if (sourceDomain === undefined) {
-                  sourceDomain = await this.decodeSourceDomainFromTx(txHash);
-                  txSourceDomainCache.set(txHash, sourceDomain);
-                  // Small delay to respect rate limits
-                  await this.delay(DELAY_BETWEEN_RPC_CALLS_MS);
-                }
-                
-                // Use -1 for unknown source domains (will be filtered in queries)
-                // Never use 0 as default since that's Ethereum's domain and would be misleading
-                const resolvedSourceDomain = sourceDomain ?? -1;
-                
-                // Skip if source domain equals current chain (impossible in CCTP)
-                if (resolvedSourceDomain === this.domainId) {
-                  logger.warn(`${this.metadata.name}: Skipping mint with invalid source domain = current chain`);
-                  continue;
-                }
-                
-                mints.push({
-                  chainDomain: this.domainId,
-                  sourceDomain: resolvedSourceDomain,
-                  amount: args.amount.toString(),
-                  token: 'USDC',
-                  mintRecipient: args.mintRecipient,
-                  blockTime,
-                  txHash,
-                  blockNumber: log.blockNumber,
-                  logIndex: log.logIndex ?? 0,
+                  burnTxHash: log.transactionHash,
+                  mintTxHash: null,
+                  burnAt: blockTime,
+                  irisAttestedAt: null,
+                  mintAt: null,
+                  status: TransferStatus.MESSAGE_SENT,
+                  errorReason: null,
+                  nonce,
+                  messageBody: message.parsed.messageBody,
+                  sender: args.depositor.toLowerCase(),
+                  recipient: args.mintRecipient,
+                  minFinalityThreshold: Number(args.minFinalityThreshold),
+                  maxFee: args.maxFee.toString(),
+                  finalityThresholdExecuted: null,
                 });
-              } catch (e) {
-                logger.debug(`${this.metadata.name}: Failed to decode MintAndWithdraw: ${e}`);
+              } else {
+                logger.debug(`${this.metadata.name}: No MessageSent found for burn in tx ${log.transactionHash}`);
               }
+            } catch (e) {
+              logger.debug(`${this.metadata.name}: Failed to decode DepositForBurn: ${e}`);
+            }
+          } else if (topic0 === MINT_AND_WITHDRAW_TOPIC.toLowerCase()) {
+            // Parse MintAndWithdraw event
+            let args: any;
+            try {
+              args = decodeEventLog({
+                abi: [MINT_AND_WITHDRAW_ABI],
+                data: log.data,
+                topics: log.topics,
+              }).args;
+            } catch (e) {
+              logger.debug(`${this.metadata.name}: Failed to decode MintAndWithdraw: ${e}`);
+              continue;
             }
-          }
-        } catch (error: any) {
-          // Handle different error types gracefully
-          if (error?.code === -32615 || error?.message?.includes('range')) {
-            logger.warn(`${this.metadata.name}: Skipping chunk [${currentFrom}-${currentTo}] - range limit`);
-          } else if (error?.message?.includes('fetch failed') || error?.message?.includes('timeout') || error?.message?.includes('HTTP')) {
-            logger.warn(`${this.metadata.name}: Skipping chunk [${currentFrom}-${currentTo}] - network error: ${error.message}`);
-            // Continue to next chunk instead of failing entire range
-          } else {
-            logger.error(`${this.metadata.name}: Error in chunk [${currentFrom}-${currentTo}]`, error);
-            // Continue to next chunk for resilience
-          }
-        }
 
-        currentFrom = currentTo + 1n;
+            const txHash = log.transactionHash;
+            const mintRecipient = args.mintRecipient.toLowerCase();
+            const received = takeReceivedMessage(receivedMessages.get(txHash), log.logIndex ?? 0, mintRecipient);
 
-        if (currentFrom <= toBlock) {
-          await this.delay(DELAY_BETWEEN_RPC_CALLS_MS);
-        }
-      }
+            // Use -1 for unknown source domains (will be filtered in queries)
+            // Never use 0 as default since that's Ethereum's domain and would be misleading
+            const resolvedSourceDomain = received?.sourceDomain ?? -1;
 
-      // Insert records
-      if (burns.length > 0) {
-        await this.insertBurns(burns);
-        logger.info(`${this.metadata.name}: 🔥 ${burns.length} burns`);
-      }
+            // Skip if source domain equals current chain (impossible in CCTP)
+            if (resolvedSourceDomain === this.domainId) {
+              logger.warn(`${this.metadata.name}: Skipping mint with invalid source domain = current chain`);
+              continue;
+            }
 
-      if (mints.length > 0) {
-        await this.insertMints(mints);
-        logger.info(`${this.metadata.name}: 💵 ${mints.length} mints`);
+            const link = received ? await this.linkReceivedMessage(received, txHash, txMessageCache) : null;
+            const burnMessage = received?.burnMessage ?? null;
+
+            mints.push({
+              chainDomain: this.domainId,
+              sourceDomain: resolvedSourceDomain,
+              amount: args.amount.toString(),
+              token: 'USDC',
+              mintRecipient,
+              blockTime,
+              txHash,
+              blockNumber: log.blockNumber,
+              logIndex: log.logIndex ?? 0,
+              nonce: received?.nonce ?? null,
+              transferId: link?.transferId ?? null,
+              // Without the burn side, the executed threshold gives the same Fast/Standard split
+              mode: link
+                ? getTransferMode(link.minFinalityThreshold)
+                : received ? getTransferMode(received.finalityThresholdExecuted) : null,
+              feeCollected: args.feeCollected.toString(),
+              maxFee: burnMessage?.maxFee ?? null,
+            });
+
+            if (received && link && burnMessage) {
+              transfers.push({
+                transferId: link.transferId,
+                sourceDomain: resolvedSourceDomain,
+                destinationDomain: this.domainId,
+                mode: getTransferMode(link.minFinalityThreshold),
+                tokenType: TokenType.USDC,
+                amount: burnMessage.amount,
+                burnTxHash: null,
+                mintTxHash: txHash,
+                burnAt: null,
+                irisAttestedAt: null,
+                mintAt: blockTime,
+                status: TransferStatus.MINT_COMPLETE,
+                errorReason: null,
+                nonce: received.nonce,
+                messageBody: received.messageBody,
+                sender: bytes32ToEvmAddress(burnMessage.messageSender),
+                recipient: burnMessage.mintRecipient,
+                minFinalityThreshold: link.minFinalityThreshold,
+                maxFee: burnMessage.maxFee,
+                finalityThresholdExecuted: received.finalityThresholdExecuted,
+              });
+            } else if (!received) {
+              logger.debug(`${this.metadata.name}: No MessageReceived found for mint in tx ${txHash}`);
+            }
+          }
+        }
+      } catch (error: any) {
+        // Handle different error types gracefully - the chunk is recorded as a gap and retried later
+        if (isRangeLimitError(error)) {
+          logger.warn(`${this.metadata.name}: Chunk [${currentFrom}-${currentTo}] failed - range limit, recording gap`);
+        } else if (error?.message?.includes('fetch failed') || error?.message?.includes('timeout') || error?.message?.includes('HTTP')) {
+          logger.warn(`${this.metadata.name}: Chunk [${currentFrom}-${currentTo}] failed - network error: ${error.message}, recording gap`);
+        } else {
+          logger.error(`${this.metadata.name}: Error in chunk [${currentFrom}-${currentTo}], recording gap`, error);
+        }
+        failedChunks.push({
+          fromBlock: currentFrom,
+          toBlock: currentTo,
+          error: error?.shortMessage || error?.message || String(error),
+        });
       }
 
-      // Update checkpoint
-      await this.updateCheckpoint(toBlock);
+      currentFrom = currentTo + 1n;
+    }
 
-      return { burns: burns.length, mints: mints.length };
-    } catch (error) {
-      logger.error(`${this.metadata.name}: Error indexing blocks ${fromBlock}-${toBlock}`, error);
-      throw error;
+    if (this.logRange !== null && this.logRange !== savedLogRange) {
+      await updateLogRange(this.domainId, this.logRange);
+      logger.info(`${this.metadata.name}: getLogs range ${savedLogRange} -> ${this.logRange} blocks`);
     }
-  }
 
-  private async insertBurns(burns: BurnRecord[]): Promise<void> {
-    if (burns.length === 0) return;
-
-    const values = burns.map(
-      (b, i) => `($${i * 8 + 1}, $${i * 8 + 2}, $${i * 8 + 3}, $${i * 8 + 4}, $${i * 8 + 5}, $${i * 8 + 6}, $${i * 8 + 7}, $${i * 8 + 8})`
-    ).join(', ');
-
-    const query = `
-      INSERT INTO burns (
-        chain_domain, destination_domain, amount, token, block_time, tx_hash, block_number, log_index
-      ) VALUES ${values}
-      ON CONFLICT (chain_domain, tx_hash, log_index) DO NOTHING
-    `;
-
-    const params = burns.flatMap(b => [
-      b.chainDomain,
-      b.destinationDomain,
-      b.amount,
-      b.token,
-      b.blockTime,
-      b.txHash,
-      b.blockNumber.toString(),
-      b.logIndex,
-    ]);
-
-    await pool.query(query, params);
+    return { burns, mints, transfers, failedChunks };
   }
 
-  private async insertMints(mints: MintRecord[]): Promise<void> {
-    if (mints.length === 0) return;
-
-    const values = mints.map(
-      (m, i) => `($${i * 9 + 1}, $${i * 9 + 2}, $${i * 9 + 3}, $${i * 9 + 4}, $${i * 9 + 5}, $${i * 9 + 6}, $${i * 9 + 7}, $${i * 9 + 8}, $${i * 9 + 9})`
-    ).join(', ');
-
-    const query = `
-      INSERT INTO mints (
-        chain_domain, source_domain, amount, token, mint_recipient, block_time, tx_hash, block_number, log_index
-      ) VALUES ${values}
-      ON CONFLICT (chain_domain, tx_hash, log_index) DO NOTHING
-    `;
-
-    const params = mints.flatMap(m => [
-      m.chainDomain,
-      m.sourceDomain,
-      m.amount,
-      m.token,
-      m.mintRecipient,
-      m.blockTime,
-      m.txHash,
-      m.blockNumber.toString(),
-      m.logIndex,
-    ]);
-
-    await pool.query(query, params);
+  async getCurrentHeight(): Promise<bigint> {
+    return await this.client.getBlockNumber();
   }
 
-  async getCurrentBlock(): Promise<bigint> {
-    return await this.client.getBlockNumber();
+  /**
+   * Highest block the indexer may process, per the chain's finality setting
+   */
+  async getSafeHeight(): Promise<bigint> {
+    if (this.metadata.finality === FinalityTag.LATEST) {
+      const currentBlock = await this.getCurrentHeight();
+      return currentBlock - BigInt(this.metadata.confirmations);
+    }
+
+    const block = await this.client.getBlock({ blockTag: this.metadata.finality });
+    return block.number;
   }
 
-  getChainName(): string {
-    return this.metadata.name;
+  /**
+   * The chain's finalized block
+   * Falls back to latest - confirmations on nodes without the `finalized` tag
+   */
+  protected async getFinalizedHeight(): Promise<bigint> {
+    try {
+      const block = await this.client.getBlock({ blockTag: FinalityTag.FINALIZED });
+      return block.number;
+    } catch (error) {
+      logger.debug(`${this.metadata.name}: finalized tag not supported, using confirmations: ${error}`);
+      return (await this.getCurrentHeight()) - BigInt(this.metadata.confirmations);
+    }
   }
 }
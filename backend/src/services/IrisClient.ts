@@ -0,0 +1,58 @@
+/**
+ * Iris API client
+ *
+ * Circle's attestation service (CCTP V2 endpoints)
+ * Base URL defaults to mainnet and can be overridden with IRIS_API_URL (e.g. a local mock)
+ */
+
+import axios, { AxiosInstance } from 'axios';
+import {
+  IrisMessageResponse,
+  IrisMessagesResponse,
+  IrisMessagesQueryParams,
+  IrisReattestRequest,
+  IrisReattestResponse,
+} from '../types/iris';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('IrisClient');
+
+const DEFAULT_IRIS_API_URL = 'https://iris-api.circle.com';
+
+export class IrisClient {
+  private client: AxiosInstance;
+
+  constructor(baseUrl: string = process.env.IRIS_API_URL || DEFAULT_IRIS_API_URL) {
+    this.client = axios.create({
+      baseURL: baseUrl,
+      timeout: 15000,
+      headers: { 'Content-Type': 'application/json' },
+    });
+    logger.info(`Using Iris API at ${baseUrl}`);
+  }
+
+  /**
+   * Messages emitted on a source domain, filtered by transaction hash or nonce
+   * Returns an empty list when Iris has not seen the transaction yet (404)
+   */
+  async getMessages(sourceDomain: number, params: Omit<IrisMessagesQueryParams, 'domain'>): Promise<IrisMessageResponse[]> {
+    try {
+      const response = await this.client.get<IrisMessagesResponse>(`/v2/messages/${sourceDomain}`, { params });
+      return response.data.messages || [];
+    } catch (error: any) {
+      if (error?.response?.status === 404) {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Ask Iris to re-attest a message (e.g. after its expiration block passed)
+   * The new attestation is then served by getMessages with a fresh expiration block
+   */
+  async reattest(request: IrisReattestRequest): Promise<IrisReattestResponse> {
+    const response = await this.client.post<IrisReattestResponse>(`/v2/reattest/${request.nonce}`, request);
+    return response.data;
+  }
+}
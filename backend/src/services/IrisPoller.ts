@@ -0,0 +1,234 @@
+/**
+ * Iris Attestation Poller
+ *
+ * Tracks attestations for burned transfers:
+ * - MESSAGE_SENT / ATTESTATION_PENDING transfers are looked up by source domain and burn tx hash
+ * - Iris 'pending_confirmations' -> ATTESTATION_PENDING
+ * - Iris 'complete' -> ATTESTATION_COMPLETE, with attestation time, nonce and finalityThresholdExecuted
+ *
+ * Mints indexed before their transfer was attested carry only the nonce; they are linked to
+ * their transfer once an attestation fills in its nonce
+ *
+ * Iris does not report when a message was attested, so the first poll that sees it
+ * complete is recorded as the attestation time
+ *
+ * Transfers are polled least recently polled first; one Iris has no message for (or whose lookup
+ * fails) backs off exponentially, so transfers that never resolve do not crowd out new burns
+ *
+ * Re-attestation (IRIS_REATTEST_ENABLED=true): EXPIRED transfers are sent to the re-attest endpoint
+ * (IRIS_REATTEST_URL, defaults to the Iris API) and go back to ATTESTATION_PENDING when accepted
+ */
+
+import { IrisClient } from './IrisClient';
+import { IrisMessageResponse } from '../types/iris';
+import { Transfer, TransferStatus } from '../types/transfer';
+import {
+  getTransfersAwaitingAttestation,
+  getTransfersToReattest,
+  linkUnlinkedMints,
+  recordAttestationPoll,
+  recordReattestRequest,
+  updateTransferAttestation,
+} from '../database/client';
+import { computeTransferId, isEmptyNonce, parseMessageV2, parseBurnMessageV2 } from '../utils/cctpMessage';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('IrisPoller');
+
+// Polling interval (ms)
+const POLL_INTERVAL_MS = 10000;
+
+// Transfers checked per cycle
+const MAX_TRANSFERS_PER_CYCLE = 50;
+
+// Wait before re-polling a transfer Iris had no message for, doubled per miss (s)
+const MISS_BACKOFF_SECONDS = 10;
+const MAX_MISS_BACKOFF_SECONDS = 30 * 60;
+
+// Delay between Iris requests (ms) - Iris allows 35 requests/second
+const DELAY_BETWEEN_REQUESTS_MS = 100;
+
+// Re-attestation requests per cycle, per transfer, and minutes between attempts
+const MAX_REATTESTS_PER_CYCLE = 5;
+const MAX_REATTEST_ATTEMPTS = 3;
+const REATTEST_RETRY_MINUTES = 30;
+
+function createReattestClient(): IrisClient | null {
+  if (process.env.IRIS_REATTEST_ENABLED !== 'true') {
+    return null;
+  }
+  return new IrisClient(process.env.IRIS_REATTEST_URL || undefined);
+}
+
+export class IrisPoller {
+  private iris: IrisClient;
+  private reattestIris: IrisClient | null;
+  private interval: NodeJS.Timeout | null = null;
+  private isRunning: boolean = false;
+  private isCycleRunning: boolean = false;
+
+  constructor(iris: IrisClient = new IrisClient(), reattestIris: IrisClient | null = createReattestClient()) {
+    this.iris = iris;
+    this.reattestIris = reattestIris;
+  }
+
+  /**
+   * Start the poller
+   */
+  start(): void {
+    if (this.isRunning) {
+      logger.warn('Iris poller already running');
+      return;
+    }
+
+    logger.info(`Starting Iris poller (polling every ${POLL_INTERVAL_MS / 1000}s, re-attestation ${this.reattestIris ? 'enabled' : 'disabled'})`);
+    this.isRunning = true;
+
+    this.runPollCycle();
+    this.interval = setInterval(() => {
+      this.runPollCycle();
+    }, POLL_INTERVAL_MS);
+  }
+
+  /**
+   * Stop the poller
+   */
+  stop(): void {
+    if (!this.isRunning) return;
+
+    logger.info('Stopping Iris poller');
+    this.isRunning = false;
+
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  private delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+
+  /**
+   * Check the oldest transfers awaiting attestation
+   */
+  private async runPollCycle(): Promise<void> {
+    if (this.isCycleRunning) {
+      logger.warn('Previous Iris cycle still running, skipping');
+      return;
+    }
+
+    this.isCycleRunning = true;
+    let attested = 0;
+
+    try {
+      const transfers = await getTransfersAwaitingAttestation(MAX_TRANSFERS_PER_CYCLE, MISS_BACKOFF_SECONDS, MAX_MISS_BACKOFF_SECONDS);
+
+      for (const transfer of transfers) {
+        try {
+          if (await this.pollTransfer(transfer)) {
+            attested++;
+          }
+        } catch (error: any) {
+          logger.warn(`Iris lookup failed for ${transfer.burnTxHash} (domain ${transfer.sourceDomain}): ${error?.message || error}`);
+          await recordAttestationPoll(transfer.transferId, false);
+        }
+        await this.delay(DELAY_BETWEEN_REQUESTS_MS);
+      }
+
+      if (attested > 0) {
+        logger.info(`✍️ ${attested}/${transfers.length} transfers attested`);
+        const linked = await linkUnlinkedMints();
+        if (linked > 0) {
+          logger.info(`🔗 ${linked} earlier mints linked to their transfers`);
+        }
+      }
+
+      if (this.reattestIris) {
+        await this.requestReattestations(this.reattestIris);
+      }
+    } catch (error) {
+      logger.error('Iris poll cycle failed', error);
+    } finally {
+      this.isCycleRunning = false;
+    }
+  }
+
+  /**
+   * Look up a transfer on Iris and record its attestation state
+   * Returns true if the transfer is now attested
+   */
+  private async pollTransfer(transfer: Transfer): Promise<boolean> {
+    const messages = await this.iris.getMessages(transfer.sourceDomain, {
+      transactionHash: transfer.burnTxHash!,
+    });
+
+    const message = this.findMessage(transfer, messages);
+    await recordAttestationPoll(transfer.transferId, message !== null);
+    if (!message) {
+      return false;
+    }
+
+    const complete = message.status === 'complete';
+    const thresholdExecuted = message.decodedMessage?.finalityThresholdExecuted ?? message.finalityThresholdExecuted;
+
+    await updateTransferAttestation(transfer.transferId, {
+      status: complete ? TransferStatus.ATTESTATION_COMPLETE : TransferStatus.ATTESTATION_PENDING,
+      nonce: message.eventNonce && !isEmptyNonce(message.eventNonce) ? message.eventNonce : null,
+      finalityThresholdExecuted: complete && thresholdExecuted !== undefined ? Number(thresholdExecuted) : null,
+      attestedAt: complete ? new Date() : null,
+      expirationBlock: complete ? this.getExpirationBlock(message) : null,
+    });
+
+    return complete;
+  }
+
+  /**
+   * Expiration block set by the attester in the signed message (null if it cannot be decoded)
+   */
+  private getExpirationBlock(message: IrisMessageResponse): string | null {
+    const parsed = message.message && message.message !== '0x' ? parseMessageV2(message.message) : null;
+    const burnMessage = parsed ? parseBurnMessageV2(parsed.messageBody) : null;
+    return burnMessage ? burnMessage.expirationBlock : null;
+  }
+
+  /**
+   * Request re-attestation of expired transfers
+   */
+  private async requestReattestations(reattestIris: IrisClient): Promise<void> {
+    const transfers = await getTransfersToReattest(MAX_REATTESTS_PER_CYCLE, MAX_REATTEST_ATTEMPTS, REATTEST_RETRY_MINUTES);
+
+    for (const transfer of transfers) {
+      let accepted = false;
+      try {
+        const response = await reattestIris.reattest({ sourceDomain: transfer.sourceDomain, nonce: transfer.nonce! });
+        accepted = response.status !== 'error';
+        if (!accepted) {
+          logger.warn(`Re-attestation rejected for ${transfer.transferId}: ${response.message || 'no reason given'}`);
+        }
+      } catch (error: any) {
+        logger.warn(`Re-attestation request failed for ${transfer.transferId}: ${error?.message || error}`);
+      }
+
+      await recordReattestRequest(transfer.transferId, accepted);
+      if (accepted) {
+        logger.info(`🔁 Re-attestation requested for ${transfer.transferId}`);
+      }
+      await this.delay(DELAY_BETWEEN_REQUESTS_MS);
+    }
+  }
+
+  /**
+   * Pick the message belonging to this transfer (a tx may carry several burns)
+   */
+  private findMessage(transfer: Transfer, messages: IrisMessageResponse[]): IrisMessageResponse | null {
+    for (const message of messages) {
+      if (message.message && message.message !== '0x' && computeTransferId(message.message) === transfer.transferId) {
+        return message;
+      }
+    }
+
+    // Message bytes may be omitted while pending; a single message can only be ours
+    return messages.length === 1 ? messages[0] : null;
+  }
+}
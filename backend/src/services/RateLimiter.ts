@@ -0,0 +1,189 @@
+/**
+ * RPC rate limiting
+ *
+ * One token bucket per provider (registrable domain of the endpoint URL, e.g. quiknode.pro),
+ * shared by every chain and indexer using it, since plan limits apply per account.
+ * Limits are in credits per second; each request costs its method's credits:
+ * - RPC_RATE_LIMIT_CREDITS / RPC_RATE_LIMIT_BURST: default limit, 15 credits/s
+ * - RPC_PROVIDER_RATE_LIMITS: per-provider overrides as provider=credits[/burst], comma-separated
+ *   e.g. RPC_PROVIDER_RATE_LIMITS=quiknode.pro=50/100,llamarpc.com=5
+ * - RPC_METHOD_CREDITS: method costs as [provider:]method=credits, comma-separated; methods
+ *   without a cost count 1 credit, so by default the limit is in requests per second
+ *   (QuickNode free tier: 15 requests/s). For plans billed in compute units, set the
+ *   provider's per-method costs from its pricing page and its units/s as the limit,
+ *   e.g. RPC_METHOD_CREDITS=alchemy.com:eth_getLogs=<units>,alchemy.com:eth_blockNumber=<units>
+ *
+ * Requests are served in arrival order, so a costly request is not starved by cheap ones
+ */
+
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('RateLimiter');
+
+const DEFAULT_CREDITS_PER_SECOND = 15;
+
+export interface RateLimiterStatus {
+  provider: string;
+  creditsPerSecond: number;
+  burst: number;
+  available: number;
+  queued: number;
+  throttledRequests: number;
+}
+
+interface RateLimit {
+  creditsPerSecond: number;
+  burst: number;
+}
+
+interface RateLimitConfig {
+  defaults: RateLimit;
+  providers: Map<string, RateLimit>;
+  methodCredits: Map<string, number>; // 'method' or 'provider:method' -> credits
+}
+
+export class TokenBucket {
+  private tokens: number;
+  private updatedAt: number = Date.now();
+  private tail: Promise<void> = Promise.resolve();
+  private queued: number = 0;
+  private throttled: number = 0;
+
+  constructor(readonly creditsPerSecond: number, readonly burst: number) {
+    this.tokens = burst;
+  }
+
+  /**
+   * Wait until `cost` credits are available, after every earlier caller
+   */
+  acquire(cost: number): Promise<void> {
+    this.queued++;
+    const turn = this.tail.then(() => this.take(Math.min(cost, this.burst)));
+    this.tail = turn;
+    return turn.finally(() => {
+      this.queued--;
+    });
+  }
+
+  get available(): number {
+    this.refill();
+    return this.tokens;
+  }
+
+  get queueLength(): number {
+    return this.queued;
+  }
+
+  get throttledRequests(): number {
+    return this.throttled;
+  }
+
+  private async take(cost: number): Promise<void> {
+    this.refill();
+    if (this.tokens < cost) {
+      this.throttled++;
+      await new Promise(resolve => setTimeout(resolve, ((cost - this.tokens) / this.creditsPerSecond) * 1000));
+      this.refill();
+    }
+    this.tokens -= cost;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.burst, this.tokens + ((now - this.updatedAt) / 1000) * this.creditsPerSecond);
+    this.updatedAt = now;
+  }
+}
+
+/**
+ * Provider an endpoint belongs to: the last two labels of its host (IPs and single labels as-is)
+ */
+export function getProviderKey(url: string): string {
+  try {
+    const { hostname } = new URL(url);
+    if (/^[\d.]+$/.test(hostname) || hostname.includes(':')) return hostname;
+    return hostname.split('.').slice(-2).join('.');
+  } catch {
+    return 'unknown';
+  }
+}
+
+function parseLimit(value: string | undefined): number | null {
+  const parsed = value === undefined ? NaN : Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+}
+
+function loadRateLimits(): RateLimitConfig {
+  const creditsPerSecond = parseLimit(process.env.RPC_RATE_LIMIT_CREDITS) ?? DEFAULT_CREDITS_PER_SECOND;
+  const defaults = { creditsPerSecond, burst: parseLimit(process.env.RPC_RATE_LIMIT_BURST) ?? creditsPerSecond };
+
+  const providers = new Map<string, RateLimit>();
+  for (const entry of (process.env.RPC_PROVIDER_RATE_LIMITS || '').split(',')) {
+    if (!entry.trim()) continue;
+    const [provider, limit] = entry.trim().split('=');
+    const [providerCredits, providerBurst] = (limit || '').split('/');
+    const parsedCredits = parseLimit(providerCredits);
+    if (!provider || parsedCredits === null) {
+      logger.warn(`Ignoring invalid RPC_PROVIDER_RATE_LIMITS entry "${entry.trim()}" (expected provider=credits[/burst])`);
+      continue;
+    }
+    providers.set(provider, { creditsPerSecond: parsedCredits, burst: parseLimit(providerBurst) ?? parsedCredits });
+  }
+
+  const methodCredits = new Map<string, number>();
+  for (const entry of (process.env.RPC_METHOD_CREDITS || '').split(',')) {
+    if (!entry.trim()) continue;
+    const [method, credits] = entry.trim().split('=');
+    const parsedCredits = parseLimit(credits);
+    if (!method || parsedCredits === null) {
+      logger.warn(`Ignoring invalid RPC_METHOD_CREDITS entry "${entry.trim()}" (expected [provider:]method=credits)`);
+      continue;
+    }
+    methodCredits.set(method, parsedCredits);
+  }
+
+  return { defaults, providers, methodCredits };
+}
+
+let rateLimits: RateLimitConfig | null = null;
+const buckets = new Map<string, TokenBucket>();
+
+function getRateLimits(): RateLimitConfig {
+  rateLimits = rateLimits ?? loadRateLimits();
+  return rateLimits;
+}
+
+/**
+ * Credits a request costs at the provider serving this endpoint (provider-specific cost first)
+ */
+export function getMethodCredits(url: string, method: string): number {
+  const { methodCredits } = getRateLimits();
+  return methodCredits.get(`${getProviderKey(url)}:${method}`) ?? methodCredits.get(method) ?? 1;
+}
+
+/**
+ * Shared token bucket of the provider serving this endpoint
+ */
+export function getProviderLimiter(url: string): TokenBucket {
+  const provider = getProviderKey(url);
+  let bucket = buckets.get(provider);
+  if (!bucket) {
+    const limits = getRateLimits();
+    const limit = limits.providers.get(provider) ?? limits.defaults;
+    bucket = new TokenBucket(limit.creditsPerSecond, limit.burst);
+    buckets.set(provider, bucket);
+    logger.info(`Rate limiting ${provider} to ${limit.creditsPerSecond} credits/s (burst ${limit.burst})`);
+  }
+  return bucket;
+}
+
+export function getRateLimiterStatus(): RateLimiterStatus[] {
+  return [...buckets.entries()].map(([provider, bucket]) => ({
+    provider,
+    creditsPerSecond: bucket.creditsPerSecond,
+    burst: bucket.burst,
+    available: Math.floor(bucket.available),
+    queued: bucket.queueLength,
+    throttledRequests: bucket.throttledRequests,
+  }));
+}
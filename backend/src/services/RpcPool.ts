@@ -0,0 +1,271 @@
+/**
+ * RPC provider pool
+ *
+ * Spreads a chain's JSON-RPC traffic over its configured endpoints:
+ * - Smooth weighted round-robin over healthy endpoints; weight 0 endpoints are backups,
+ *   only used when every weighted endpoint is cooling down
+ * - Failover: a request that fails at the endpoint (network, timeout, HTTP 429/5xx, rate limit,
+ *   internal error) is retried on the next endpoint, and the failed endpoint cools down
+ *   (exponential backoff on consecutive errors)
+ * - Stale heads: an endpoint whose reported head lags the best known head by more than
+ *   MAX_HEAD_LAG_MS worth of blocks cools down until it catches up
+ *
+ * Other errors (invalid params, range limits, reverts) are returned to the caller as-is
+ *
+ * Every attempt first waits for credits from its provider's rate limiter (services/RateLimiter)
+ */
+
+import { ChainMetadata, RpcEndpointConfig } from '../types/chain';
+import { getMethodCredits, getProviderKey, getProviderLimiter } from './RateLimiter';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('RpcPool');
+
+// Cooldown after consecutive endpoint errors: BASE * 2^(errors - 1), capped
+const BASE_COOLDOWN_MS = 5000;
+const MAX_COOLDOWN_MS = 5 * 60000;
+
+// Head lag tolerated before an endpoint is considered stale, and how long it is then skipped
+const MAX_HEAD_LAG_MS = 60000;
+const STALE_COOLDOWN_MS = 60000;
+
+// Weight of the latest sample in the average latency
+const LATENCY_SMOOTHING = 0.2;
+
+// JSON-RPC codes meaning the endpoint (not the request) failed: limit exceeded / rate limited, internal error
+const ENDPOINT_ERROR_CODES = [-32005, -32603];
+
+export interface RpcEndpoint {
+  url: string;
+  weight: number;
+}
+
+export interface RpcEndpointStats {
+  url: string; // API keys masked
+  provider: string;
+  weight: number;
+  healthy: boolean;
+  requests: number;
+  errors: number;
+  consecutiveErrors: number;
+  avgLatencyMs: number | null;
+  lastError: string | null;
+  lastErrorAt: Date | null;
+  cooldownUntil: Date | null;
+  head: string | null;
+}
+
+export interface RpcPoolStatus {
+  domain: number;
+  name: string;
+  endpoints: RpcEndpointStats[];
+}
+
+interface EndpointState extends RpcEndpoint {
+  currentWeight: number;
+  requests: number;
+  errors: number;
+  consecutiveErrors: number;
+  avgLatencyMs: number | null;
+  lastError: string | null;
+  lastErrorAt: Date | null;
+  cooldownUntil: number;
+  head: bigint | null;
+}
+
+/**
+ * Hide credentials: QuickNode and most paid providers put the API key in the path or query
+ */
+export function maskRpcUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    const hasSecret = parsed.pathname.length > 1 || parsed.search !== '' || parsed.username !== '';
+    return `${parsed.protocol}//${parsed.host}${hasSecret ? '/***' : ''}`;
+  } catch {
+    return '***';
+  }
+}
+
+// Walks the error and its causes (viem wraps transport errors)
+function isEndpointError(error: any): boolean {
+  for (let current = error; current; current = current.cause) {
+    if (current.name === 'HttpRequestError' || current.name === 'TimeoutError' || current.isAxiosError) return true;
+    if (ENDPOINT_ERROR_CODES.includes(current.code)) return true;
+    const status = current.status ?? current.response?.status;
+    if (status === 429 || status >= 500) return true;
+  }
+  return false;
+}
+
+export class RpcPool {
+  private readonly name: string;
+  private readonly blockTime: number;
+  private readonly endpoints: EndpointState[];
+
+  constructor(name: string, endpoints: RpcEndpointConfig[], blockTime: number) {
+    if (endpoints.length === 0) {
+      throw new Error(`${name}: no RPC endpoint configured`);
+    }
+
+    this.name = name;
+    this.blockTime = blockTime;
+    this.endpoints = endpoints.map(endpoint => ({
+      ...endpoint,
+      currentWeight: 0,
+      requests: 0,
+      errors: 0,
+      consecutiveErrors: 0,
+      avgLatencyMs: null,
+      lastError: null,
+      lastErrorAt: null,
+      cooldownUntil: 0,
+      head: null,
+    }));
+  }
+
+  get size(): number {
+    return this.endpoints.length;
+  }
+
+  /**
+   * Run a request against the next endpoint, failing over to the others on endpoint errors
+   * `method` sets the rate limiter credits the request costs
+   */
+  async request<T>(method: string, send: (endpoint: RpcEndpoint) => Promise<T>): Promise<T> {
+    const tried = new Set<EndpointState>();
+    let lastError: unknown;
+
+    while (tried.size < this.endpoints.length) {
+      const endpoint = this.pick(tried);
+      tried.add(endpoint);
+      await getProviderLimiter(endpoint.url).acquire(getMethodCredits(endpoint.url, method));
+
+      const startedAt = Date.now();
+      try {
+        const result = await send(endpoint);
+        this.recordSuccess(endpoint, Date.now() - startedAt);
+        return result;
+      } catch (error) {
+        if (!isEndpointError(error)) {
+          // The endpoint answered; the request itself was rejected
+          this.recordSuccess(endpoint, Date.now() - startedAt);
+          throw error;
+        }
+        this.recordFailure(endpoint, error);
+        lastError = error;
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Record the head an endpoint reported; endpoints lagging the best known head are cooled down
+   */
+  reportHead(endpoint: RpcEndpoint, head: bigint): void {
+    const state = this.endpoints.find(candidate => candidate.url === endpoint.url);
+    if (!state) return;
+    state.head = head;
+
+    const best = this.endpoints.reduce((max, candidate) => (candidate.head !== null && candidate.head > max ? candidate.head : max), head);
+    const maxLag = BigInt(Math.ceil(MAX_HEAD_LAG_MS / this.blockTime));
+    if (best - head > maxLag && state.cooldownUntil <= Date.now()) {
+      state.cooldownUntil = Date.now() + STALE_COOLDOWN_MS;
+      logger.warn(`${this.name}: ${maskRpcUrl(state.url)} is ${best - head} blocks behind, skipping it for ${STALE_COOLDOWN_MS / 1000}s`);
+    }
+  }
+
+  getStats(): RpcEndpointStats[] {
+    const now = Date.now();
+    return this.endpoints.map(endpoint => ({
+      url: maskRpcUrl(endpoint.url),
+      provider: getProviderKey(endpoint.url),
+      weight: endpoint.weight,
+      healthy: endpoint.cooldownUntil <= now,
+      requests: endpoint.requests,
+      errors: endpoint.errors,
+      consecutiveErrors: endpoint.consecutiveErrors,
+      avgLatencyMs: endpoint.avgLatencyMs === null ? null : Math.round(endpoint.avgLatencyMs),
+      lastError: endpoint.lastError,
+      lastErrorAt: endpoint.lastErrorAt,
+      cooldownUntil: endpoint.cooldownUntil > now ? new Date(endpoint.cooldownUntil) : null,
+      head: endpoint.head === null ? null : endpoint.head.toString(),
+    }));
+  }
+
+  /**
+   * Smooth weighted round-robin over healthy weighted endpoints, then healthy backups,
+   * then whichever endpoint's cooldown ends first
+   */
+  private pick(exclude: Set<EndpointState>): EndpointState {
+    const now = Date.now();
+    const candidates = this.endpoints.filter(endpoint => !exclude.has(endpoint));
+    const healthy = candidates.filter(endpoint => endpoint.cooldownUntil <= now);
+    const weighted = healthy.filter(endpoint => endpoint.weight > 0);
+
+    if (weighted.length > 0) {
+      const totalWeight = weighted.reduce((sum, endpoint) => sum + endpoint.weight, 0);
+      let selected = weighted[0];
+      for (const endpoint of weighted) {
+        endpoint.currentWeight += endpoint.weight;
+        if (endpoint.currentWeight > selected.currentWeight) {
+          selected = endpoint;
+        }
+      }
+      selected.currentWeight -= totalWeight;
+      return selected;
+    }
+
+    if (healthy.length > 0) {
+      return healthy[0];
+    }
+
+    return candidates.reduce((soonest, endpoint) => (endpoint.cooldownUntil < soonest.cooldownUntil ? endpoint : soonest));
+  }
+
+  private recordSuccess(endpoint: EndpointState, latencyMs: number): void {
+    endpoint.requests++;
+    endpoint.consecutiveErrors = 0;
+    endpoint.avgLatencyMs = endpoint.avgLatencyMs === null
+      ? latencyMs
+      : endpoint.avgLatencyMs + LATENCY_SMOOTHING * (latencyMs - endpoint.avgLatencyMs);
+  }
+
+  private recordFailure(endpoint: EndpointState, error: any): void {
+    endpoint.requests++;
+    endpoint.errors++;
+    endpoint.consecutiveErrors++;
+    endpoint.lastError = error?.shortMessage || error?.message || String(error);
+    endpoint.lastErrorAt = new Date();
+
+    const cooldown = Math.min(BASE_COOLDOWN_MS * 2 ** (endpoint.consecutiveErrors - 1), MAX_COOLDOWN_MS);
+    endpoint.cooldownUntil = Date.now() + cooldown;
+
+    if (this.endpoints.length > 1) {
+      logger.warn(`${this.name}: ${maskRpcUrl(endpoint.url)} failed (${endpoint.lastError}), failing over for ${cooldown / 1000}s`);
+    }
+  }
+}
+
+// One pool per chain, shared by everything talking to that chain
+const pools = new Map<number, { chain: ChainMetadata; pool: RpcPool }>();
+
+export function getRpcPool(chain: ChainMetadata): RpcPool {
+  let entry = pools.get(chain.domainId);
+  if (!entry) {
+    entry = { chain, pool: new RpcPool(chain.name, chain.rpcEndpoints, chain.blockTime) };
+    pools.set(chain.domainId, entry);
+  }
+  return entry.pool;
+}
+
+/**
+ * Endpoint stats of every pool created so far
+ */
+export function getRpcPoolStatus(): RpcPoolStatus[] {
+  return [...pools.values()].map(({ chain, pool }) => ({
+    domain: chain.domainId,
+    name: chain.name,
+    endpoints: pool.getStats(),
+  }));
+}
@@ -0,0 +1,330 @@
+/**
+ * Solana Indexer Service
+ *
+ * Uses the CCTP V2 TokenMessengerMinter and MessageTransmitter programs
+ * Listens for:
+ * - DepositForBurn event (OUT/BURN), linked via the MessageSent account
+ * - MintAndWithdraw event (IN/MINT), linked via the receive_message params
+ *
+ * Slots are used as block numbers (checkpoints, gaps, burns/mints.block_number)
+ * Slots are read at confirmed/finalized commitment, which are not rolled back, so there is no reorg handling
+ */
+
+import axios, { AxiosInstance } from 'axios';
+import { ChainMetadata, VMType, SolanaPrograms, FinalityTag } from '../types/chain';
+import { Transfer, TransferStatus, TokenType } from '../types/transfer';
+import { BurnRecord, MintRecord, CollectedRange, FailedRange } from '../types/indexer';
+import { ChainIndexer } from './ChainIndexer';
+import { RpcPool, getRpcPool } from './RpcPool';
+import { createLogger } from '../utils/logger';
+import {
+  parseMessageV2,
+  parseBurnMessageV2,
+  computeTransferId,
+  isEmptyNonce,
+  getTransferMode,
+} from '../utils/cctpMessage';
+import { parseSolanaTransaction, parseMessageSentAccount, SolanaTransaction } from '../utils/solanaCctp';
+import { bytes32ToChainAddress, normalizeDestinationCaller, normalizeHookData } from '../utils/address';
+
+const logger = createLogger('SolanaIndexer');
+
+// getSignaturesForAddress page size (RPC maximum) and pages per program per range
+const SIGNATURES_PAGE_SIZE = 1000;
+const MAX_SIGNATURE_PAGES = 10;
+
+// Slots to probe above a range for a cursor signature (skipped slots have no block)
+const CURSOR_SEARCH_SLOTS = 10;
+
+type Commitment = 'confirmed' | 'finalized';
+
+interface SignatureInfo {
+  signature: string;
+  slot: number;
+  err: unknown;
+}
+
+export class SolanaIndexer extends ChainIndexer {
+  private client: AxiosInstance;
+  private rpcPool: RpcPool;
+  private programs: SolanaPrograms;
+  private requestId: number = 0;
+
+  constructor(metadata: ChainMetadata) {
+    super(metadata, VMType.SOLANA);
+
+    this.programs = metadata.contracts as SolanaPrograms;
+
+    this.rpcPool = getRpcPool(metadata);
+    this.client = axios.create({
+      timeout: 60000,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  /**
+   * JSON-RPC call through the chain's RPC pool
+   * Confirmed slots are reported to the pool as endpoint heads
+   */
+  private async rpc<T>(method: string, params: unknown[]): Promise<T> {
+    return this.rpcPool.request(method, async endpoint => {
+      const response = await this.client.post(endpoint.url, {
+        jsonrpc: '2.0',
+        id: ++this.requestId,
+        method,
+        params,
+      });
+
+      if (response.data.error) {
+        const error: any = new Error(`${method}: ${response.data.error.message}`);
+        error.code = response.data.error.code;
+        throw error;
+      }
+
+      if (method === 'getSlot' && (params[0] as { commitment?: string } | undefined)?.commitment === 'confirmed') {
+        this.rpcPool.reportHead(endpoint, BigInt(response.data.result));
+      }
+      return response.data.result as T;
+    });
+  }
+
+  private get commitment(): Commitment {
+    return this.metadata.finality === FinalityTag.FINALIZED ? 'finalized' : 'confirmed';
+  }
+
+  async getCurrentHeight(): Promise<bigint> {
+    const slot = await this.rpc<number>('getSlot', [{ commitment: 'confirmed' }]);
+    return BigInt(slot);
+  }
+
+  /**
+   * Highest slot the indexer may process, per the chain's finality setting
+   */
+  async getSafeHeight(): Promise<bigint> {
+    const slot = BigInt(await this.rpc<number>('getSlot', [{ commitment: this.commitment }]));
+    return this.metadata.finality === FinalityTag.LATEST
+      ? slot - BigInt(this.metadata.confirmations)
+      : slot;
+  }
+
+  protected async getFinalizedHeight(): Promise<bigint> {
+    return BigInt(await this.rpc<number>('getSlot', [{ commitment: 'finalized' }]));
+  }
+
+  /**
+   * Find a signature in the first block above `slot`, used as the `before` cursor
+   * so signature paging starts at the range instead of the chain tip
+   */
+  private async findCursorSignature(slot: bigint): Promise<string | undefined> {
+    for (let i = 1n; i <= BigInt(CURSOR_SEARCH_SLOTS); i++) {
+      try {
+        const block = await this.rpc<{ signatures: string[] } | null>('getBlock', [
+          Number(slot + i),
+          {
+            commitment: 'confirmed',
+            transactionDetails: 'signatures',
+            rewards: false,
+            maxSupportedTransactionVersion: 0,
+          },
+        ]);
+        if (block?.signatures?.length) {
+          return block.signatures[0];
+        }
+      } catch {
+        // Skipped slot or not yet produced - try the next one
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Collect successful signatures for a program within [fromSlot, toSlot]
+   */
+  private async getProgramSignatures(program: string, fromSlot: bigint, toSlot: bigint, cursor?: string): Promise<SignatureInfo[]> {
+    const signatures: SignatureInfo[] = [];
+    let before = cursor;
+
+    for (let page = 0; page < MAX_SIGNATURE_PAGES; page++) {
+      const batch = await this.rpc<SignatureInfo[]>('getSignaturesForAddress', [
+        program,
+        { limit: SIGNATURES_PAGE_SIZE, before, commitment: this.commitment },
+      ]);
+
+      for (const info of batch) {
+        if (info.err === null && BigInt(info.slot) >= fromSlot && BigInt(info.slot) <= toSlot) {
+          signatures.push(info);
+        }
+      }
+
+      // Done once we page past the start of the range
+      if (batch.length < SIGNATURES_PAGE_SIZE || BigInt(batch[batch.length - 1].slot) < fromSlot) {
+        return signatures;
+      }
+
+      before = batch[batch.length - 1].signature;
+    }
+
+    throw new Error(`More than ${MAX_SIGNATURE_PAGES * SIGNATURES_PAGE_SIZE} signatures for ${program} in slots ${fromSlot}-${toSlot}`);
+  }
+
+  /**
+   * Fetch CCTP transactions in a slot range and build burns, mints and transfer halves
+   */
+  protected async collectRange(fromSlot: bigint, toSlot: bigint): Promise<CollectedRange> {
+    const burns: BurnRecord[] = [];
+    const mints: MintRecord[] = [];
+    const transfers: Transfer[] = [];
+    const failedChunks: FailedRange[] = [];
+
+    // Signatures touching either program (a receive touches both)
+    const signatures = new Map<string, SignatureInfo>();
+    try {
+      const cursor = await this.findCursorSignature(toSlot);
+      for (const program of [this.programs.tokenMessengerMinter, this.programs.messageTransmitter]) {
+        for (const info of await this.getProgramSignatures(program, fromSlot, toSlot, cursor)) {
+          signatures.set(info.signature, info);
+        }
+      }
+    } catch (error: any) {
+      logger.warn(`${this.metadata.name}: Slots [${fromSlot}-${toSlot}] failed - ${error?.message}, recording gap`);
+      failedChunks.push({ fromBlock: fromSlot, toBlock: toSlot, error: error?.message || String(error) });
+      return { burns, mints, transfers, failedChunks };
+    }
+
+    for (const { signature, slot } of signatures.values()) {
+      let tx: SolanaTransaction | null;
+      try {
+        tx = await this.rpc<SolanaTransaction | null>('getTransaction', [
+          signature,
+          { encoding: 'json', commitment: this.commitment, maxSupportedTransactionVersion: 0 },
+        ]);
+      } catch (error: any) {
+        logger.warn(`${this.metadata.name}: Failed to fetch tx ${signature}, recording gap at slot ${slot}`);
+        failedChunks.push({ fromBlock: BigInt(slot), toBlock: BigInt(slot), error: error?.message || String(error) });
+        continue;
+      }
+
+      const parsed = tx ? parseSolanaTransaction(tx, this.programs) : null;
+      if (!parsed) continue;
+
+      for (const burn of parsed.burns) {
+        const message = burn.messageSentAccount ? await this.fetchSentMessage(burn.messageSentAccount) : null;
+        const parsedMessage = message ? parseMessageV2(message) : null;
+        const transferId = message && parsedMessage ? computeTransferId(message) : null;
+        const nonce = parsedMessage && !isEmptyNonce(parsedMessage.nonce) ? parsedMessage.nonce : null;
+
+        burns.push({
+          chainDomain: this.domainId,
+          destinationDomain: burn.destinationDomain,
+          amount: burn.amount,
+          token: 'USDC',
+          blockTime: parsed.blockTime,
+          txHash: parsed.signature,
+          blockNumber: BigInt(parsed.slot),
+          logIndex: burn.ordinal,
+          nonce,
+          transferId,
+          minFinalityThreshold: burn.minFinalityThreshold,
+          maxFee: burn.maxFee,
+          mode: getTransferMode(burn.minFinalityThreshold),
+          depositor: burn.depositor,
+          mintRecipient: bytes32ToChainAddress(burn.mintRecipient, burn.destinationDomain),
+          destinationCaller: normalizeDestinationCaller(burn.destinationCaller, burn.destinationDomain),
+          hookData: normalizeHookData(burn.hookData),
+        });
+
+        if (parsedMessage && transferId) {
+          transfers.push({
+            transferId,
+            sourceDomain: this.domainId,
+            destinationDomain: burn.destinationDomain,
+            mode: getTransferMode(burn.minFinalityThreshold),
+            tokenType: TokenType.USDC,
+            amount: burn.amount,
+            burnTxHash: parsed.signature,
+            mintTxHash: null,
+            burnAt: parsed.blockTime,
+            irisAttestedAt: null,
+            mintAt: null,
+            status: TransferStatus.MESSAGE_SENT,
+            errorReason: null,
+            nonce,
+            messageBody: parsedMessage.messageBody,
+            sender: burn.depositor,
+            recipient: burn.mintRecipient,
+            minFinalityThreshold: burn.minFinalityThreshold,
+            maxFee: burn.maxFee,
+            finalityThresholdExecuted: null,
+          });
+        }
+      }
+
+      for (const mint of parsed.mints) {
+        const message = mint.message ? parseMessageV2(mint.message) : null;
+        const burnMessage = message ? parseBurnMessageV2(message.messageBody) : null;
+        const transferId = mint.message && message ? computeTransferId(mint.message) : null;
+        const sourceDomain = message?.sourceDomain ?? -1;
+
+        mints.push({
+          chainDomain: this.domainId,
+          sourceDomain,
+          amount: mint.amount,
+          token: 'USDC',
+          mintRecipient: mint.mintRecipient,
+          blockTime: parsed.blockTime,
+          txHash: parsed.signature,
+          blockNumber: BigInt(parsed.slot),
+          logIndex: mint.ordinal,
+          nonce: message?.nonce ?? null,
+          transferId,
+          mode: message ? getTransferMode(message.minFinalityThreshold) : null,
+          feeCollected: mint.feeCollected,
+          maxFee: burnMessage?.maxFee ?? null,
+        });
+
+        if (message && transferId && burnMessage) {
+          transfers.push({
+            transferId,
+            sourceDomain,
+            destinationDomain: this.domainId,
+            mode: getTransferMode(message.minFinalityThreshold),
+            tokenType: TokenType.USDC,
+            amount: burnMessage.amount,
+            burnTxHash: null,
+            mintTxHash: parsed.signature,
+            burnAt: null,
+            irisAttestedAt: null,
+            mintAt: parsed.blockTime,
+            status: TransferStatus.MINT_COMPLETE,
+            errorReason: null,
+            nonce: message.nonce,
+            messageBody: message.messageBody,
+            sender: burnMessage.messageSender,
+            recipient: mint.mintRecipient,
+            minFinalityThreshold: message.minFinalityThreshold,
+            maxFee: burnMessage.maxFee,
+            finalityThresholdExecuted: message.finalityThresholdExecuted,
+          });
+        }
+      }
+    }
+
+    return { burns, mints, transfers, failedChunks };
+  }
+
+  /**
+   * Read the MessageV2 from a MessageSent account (null once the rent has been reclaimed)
+   */
+  private async fetchSentMessage(account: string): Promise<string | null> {
+    try {
+      const info = await this.rpc<{ value: { data: [string, string] } | null }>('getAccountInfo', [
+        account,
+        { encoding: 'base64', commitment: this.commitment },
+      ]);
+      return info.value ? parseMessageSentAccount(info.value.data[0]) : null;
+    } catch (error) {
+      logger.debug(`${this.metadata.name}: Failed to read MessageSent account ${account}: ${error}`);
+      return null;
+    }
+  }
+}
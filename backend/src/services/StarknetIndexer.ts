@@ -0,0 +1,361 @@
+/**
+ * Starknet Indexer Service
+ *
+ * Uses the CCTP V2 TokenMessengerMinter and MessageTransmitter contracts (Cairo)
+ * Listens for:
+ * - DepositForBurn event (OUT/BURN), linked via the MessageSent event in the same tx
+ * - MintAndWithdraw event (IN/MINT), source domain and nonce from MessageReceived
+ *
+ * MessageReceived only carries the message body, so a mint's transfer ID comes from the burned
+ * transfer with the same route and nonce; mints seen before that transfer's nonce is known are
+ * linked once its attestation is polled (IrisPoller)
+ * Blocks accepted on L2 are not reverted by the sequencer, so there is no reorg handling
+ */
+
+import axios, { AxiosInstance } from 'axios';
+import { ChainMetadata, VMType, StarknetContracts } from '../types/chain';
+import { Transfer, TransferStatus, TokenType } from '../types/transfer';
+import { BurnRecord, MintRecord, CollectedRange, FailedRange } from '../types/indexer';
+import { ChainIndexer } from './ChainIndexer';
+import { RpcPool, getRpcPool } from './RpcPool';
+import { createLogger } from '../utils/logger';
+import {
+  parseMessageV2,
+  computeTransferId,
+  isEmptyNonce,
+  getTransferMode,
+} from '../utils/cctpMessage';
+import { getTransferByNonce } from '../database/client';
+import {
+  StarknetEvent,
+  StarknetMessageReceived,
+  DEPOSIT_FOR_BURN_SELECTOR,
+  MINT_AND_WITHDRAW_SELECTOR,
+  MESSAGE_SENT_SELECTOR,
+  MESSAGE_RECEIVED_SELECTOR,
+  isSelector,
+  parseDepositForBurn,
+  parseMintAndWithdraw,
+  parseMessageSent,
+  parseMessageReceived,
+} from '../utils/starknetCctp';
+import { bytes32ToChainAddress, normalizeDestinationCaller, normalizeHookData } from '../utils/address';
+
+const logger = createLogger('StarknetIndexer');
+
+// starknet_getEvents page size and pages per contract per range
+const EVENTS_CHUNK_SIZE = 1000;
+const MAX_EVENT_PAGES = 20;
+
+interface EventsPage {
+  events: StarknetEvent[];
+  continuation_token?: string;
+}
+
+export class StarknetIndexer extends ChainIndexer {
+  private client: AxiosInstance;
+  private rpcPool: RpcPool;
+  private contracts: StarknetContracts;
+  private requestId: number = 0;
+
+  constructor(metadata: ChainMetadata) {
+    super(metadata, VMType.STARKNET);
+
+    this.contracts = metadata.contracts as StarknetContracts;
+
+    this.rpcPool = getRpcPool(metadata);
+    this.client = axios.create({
+      timeout: 60000,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  /**
+   * JSON-RPC call through the chain's RPC pool
+   * Block numbers are reported to the pool as endpoint heads
+   */
+  private async rpc<T>(method: string, params: unknown[]): Promise<T> {
+    return this.rpcPool.request(method, async endpoint => {
+      const response = await this.client.post(endpoint.url, {
+        jsonrpc: '2.0',
+        id: ++this.requestId,
+        method,
+        params,
+      });
+
+      if (response.data.error) {
+        const error: any = new Error(`${method}: ${response.data.error.message}`);
+        error.code = response.data.error.code;
+        throw error;
+      }
+
+      if (method === 'starknet_blockNumber') {
+        this.rpcPool.reportHead(endpoint, BigInt(response.data.result));
+      }
+      return response.data.result as T;
+    });
+  }
+
+  async getCurrentHeight(): Promise<bigint> {
+    const blockNumber = await this.rpc<number>('starknet_blockNumber', []);
+    return BigInt(blockNumber);
+  }
+
+  /**
+   * Highest block the indexer may process (latest accepted block minus confirmations)
+   */
+  async getSafeHeight(): Promise<bigint> {
+    const latest = await this.getCurrentHeight();
+    return latest - BigInt(this.metadata.confirmations);
+  }
+
+  /**
+   * L2-accepted blocks are treated as final, same as the safe block
+   */
+  protected async getFinalizedHeight(): Promise<bigint> {
+    return this.getSafeHeight();
+  }
+
+  /**
+   * Fetch all events of a contract matching `selectors` in [fromBlock, toBlock],
+   * following continuation tokens
+   */
+  private async getEvents(address: string, selectors: string[], fromBlock: bigint, toBlock: bigint): Promise<StarknetEvent[]> {
+    const events: StarknetEvent[] = [];
+    let continuationToken: string | undefined;
+
+    for (let page = 0; page < MAX_EVENT_PAGES; page++) {
+      const result = await this.rpc<EventsPage>('starknet_getEvents', [{
+        from_block: { block_number: Number(fromBlock) },
+        to_block: { block_number: Number(toBlock) },
+        address,
+        keys: [selectors],
+        chunk_size: EVENTS_CHUNK_SIZE,
+        continuation_token: continuationToken,
+      }]);
+
+      events.push(...result.events);
+
+      if (!result.continuation_token) {
+        return events;
+      }
+
+      continuationToken = result.continuation_token;
+    }
+
+    throw new Error(`More than ${MAX_EVENT_PAGES * EVENTS_CHUNK_SIZE} events for ${address} in blocks ${fromBlock}-${toBlock}`);
+  }
+
+  /**
+   * Block timestamp, cached per range
+   */
+  private async getBlockTime(blockNumber: number, cache: Map<number, Date>): Promise<Date> {
+    const cached = cache.get(blockNumber);
+    if (cached) return cached;
+
+    const block = await this.rpc<{ timestamp: number }>('starknet_getBlockWithTxHashes', [{ block_number: blockNumber }]);
+    const blockTime = new Date(block.timestamp * 1000);
+    cache.set(blockNumber, blockTime);
+    return blockTime;
+  }
+
+  /**
+   * Fetch CCTP events in a block range and build burns, mints and transfer halves
+   */
+  protected async collectRange(fromBlock: bigint, toBlock: bigint): Promise<CollectedRange> {
+    const burns: BurnRecord[] = [];
+    const mints: MintRecord[] = [];
+    const transfers: Transfer[] = [];
+    const failedChunks: FailedRange[] = [];
+
+    let messengerEvents: StarknetEvent[];
+    let transmitterEvents: StarknetEvent[];
+    const blockTimes = new Map<number, Date>();
+
+    try {
+      messengerEvents = await this.getEvents(
+        this.contracts.tokenMessengerMinter,
+        [DEPOSIT_FOR_BURN_SELECTOR, MINT_AND_WITHDRAW_SELECTOR],
+        fromBlock,
+        toBlock
+      );
+      transmitterEvents = await this.getEvents(
+        this.contracts.messageTransmitter,
+        [MESSAGE_SENT_SELECTOR, MESSAGE_RECEIVED_SELECTOR],
+        fromBlock,
+        toBlock
+      );
+      for (const event of [...messengerEvents, ...transmitterEvents]) {
+        await this.getBlockTime(event.block_number, blockTimes);
+      }
+    } catch (error: any) {
+      logger.warn(`${this.metadata.name}: Blocks [${fromBlock}-${toBlock}] failed - ${error?.message}, recording gap`);
+      failedChunks.push({ fromBlock, toBlock, error: error?.message || String(error) });
+      return { burns, mints, transfers, failedChunks };
+    }
+
+    // MessageSent / MessageReceived per tx, in emission order (null when undecodable, to keep positions)
+    const sentMessages = new Map<string, (string | null)[]>();
+    const receivedMessages = new Map<string, (StarknetMessageReceived | null)[]>();
+    for (const event of transmitterEvents) {
+      if (isSelector(event, MESSAGE_SENT_SELECTOR)) {
+        const list = sentMessages.get(event.transaction_hash) || [];
+        list.push(this.decodeEvent('MessageSent', event, parseMessageSent, failedChunks));
+        sentMessages.set(event.transaction_hash, list);
+      } else if (isSelector(event, MESSAGE_RECEIVED_SELECTOR)) {
+        const list = receivedMessages.get(event.transaction_hash) || [];
+        list.push(this.decodeEvent('MessageReceived', event, parseMessageReceived, failedChunks));
+        receivedMessages.set(event.transaction_hash, list);
+      }
+    }
+
+    // Starknet events have no log index: use the position among the tx's messenger events
+    const ordinals = new Map<string, number>();
+    const burnsPerTx = new Map<string, number>();
+    const mintsPerTx = new Map<string, number>();
+
+    for (const event of messengerEvents) {
+      const txHash = event.transaction_hash;
+      const ordinal = ordinals.get(txHash) || 0;
+      ordinals.set(txHash, ordinal + 1);
+      const blockTime = blockTimes.get(event.block_number)!;
+
+      if (isSelector(event, DEPOSIT_FOR_BURN_SELECTOR)) {
+        const burnIndex = burnsPerTx.get(txHash) || 0;
+        burnsPerTx.set(txHash, burnIndex + 1);
+        const burn = this.decodeEvent('DepositForBurn', event, parseDepositForBurn, failedChunks);
+        if (!burn) continue;
+
+        const message = sentMessages.get(txHash)?.[burnIndex] ?? null;
+        const parsedMessage = message ? parseMessageV2(message) : null;
+        const transferId = message && parsedMessage ? computeTransferId(message) : null;
+        const nonce = parsedMessage && !isEmptyNonce(parsedMessage.nonce) ? parsedMessage.nonce : null;
+
+        burns.push({
+          chainDomain: this.domainId,
+          destinationDomain: burn.destinationDomain,
+          amount: burn.amount,
+          token: 'USDC',
+          blockTime,
+          txHash,
+          blockNumber: BigInt(event.block_number),
+          logIndex: ordinal,
+          nonce,
+          transferId,
+          minFinalityThreshold: burn.minFinalityThreshold,
+          maxFee: burn.maxFee,
+          mode: getTransferMode(burn.minFinalityThreshold),
+          depositor: burn.depositor,
+          mintRecipient: bytes32ToChainAddress(burn.mintRecipient, burn.destinationDomain),
+          destinationCaller: normalizeDestinationCaller(burn.destinationCaller, burn.destinationDomain),
+          hookData: normalizeHookData(burn.hookData),
+        });
+
+        if (parsedMessage && transferId) {
+          transfers.push({
+            transferId,
+            sourceDomain: this.domainId,
+            destinationDomain: burn.destinationDomain,
+            mode: getTransferMode(burn.minFinalityThreshold),
+            tokenType: TokenType.USDC,
+            amount: burn.amount,
+            burnTxHash: txHash,
+            mintTxHash: null,
+            burnAt: blockTime,
+            irisAttestedAt: null,
+            mintAt: null,
+            status: TransferStatus.MESSAGE_SENT,
+            errorReason: null,
+            nonce,
+            messageBody: parsedMessage.messageBody,
+            sender: burn.depositor,
+            recipient: burn.mintRecipient,
+            minFinalityThreshold: burn.minFinalityThreshold,
+            maxFee: burn.maxFee,
+            finalityThresholdExecuted: null,
+          });
+        }
+      } else if (isSelector(event, MINT_AND_WITHDRAW_SELECTOR)) {
+        const mintIndex = mintsPerTx.get(txHash) || 0;
+        mintsPerTx.set(txHash, mintIndex + 1);
+        const mint = this.decodeEvent('MintAndWithdraw', event, parseMintAndWithdraw, failedChunks);
+        if (!mint) continue;
+
+        const received = receivedMessages.get(txHash)?.[mintIndex] ?? null;
+        const burned = received ? await getTransferByNonce(received.sourceDomain, this.domainId, received.nonce) : null;
+
+        mints.push({
+          chainDomain: this.domainId,
+          sourceDomain: received?.sourceDomain ?? -1,
+          amount: mint.amount,
+          token: 'USDC',
+          mintRecipient: mint.mintRecipient,
+          blockTime,
+          txHash,
+          blockNumber: BigInt(event.block_number),
+          logIndex: ordinal,
+          nonce: received?.nonce ?? null,
+          transferId: burned?.transferId ?? null,
+          // Without the burn side, the executed threshold gives the same Fast/Standard split
+          mode: burned
+            ? getTransferMode(burned.minFinalityThreshold)
+            : received ? getTransferMode(received.finalityThresholdExecuted) : null,
+          feeCollected: mint.feeCollected,
+          maxFee: burned?.maxFee ?? null,
+        });
+
+        if (received && burned) {
+          transfers.push({
+            transferId: burned.transferId,
+            sourceDomain: received.sourceDomain,
+            destinationDomain: this.domainId,
+            mode: getTransferMode(burned.minFinalityThreshold),
+            tokenType: TokenType.USDC,
+            amount: burned.amount,
+            burnTxHash: null,
+            mintTxHash: txHash,
+            burnAt: null,
+            irisAttestedAt: null,
+            mintAt: blockTime,
+            status: TransferStatus.MINT_COMPLETE,
+            errorReason: null,
+            nonce: received.nonce,
+            messageBody: burned.messageBody,
+            sender: burned.sender,
+            recipient: burned.recipient,
+            minFinalityThreshold: burned.minFinalityThreshold,
+            maxFee: burned.maxFee,
+            finalityThresholdExecuted: received.finalityThresholdExecuted,
+          });
+        } else if (!received) {
+          logger.debug(`${this.metadata.name}: No MessageReceived found for mint in tx ${txHash}`);
+        }
+      }
+    }
+
+    return { burns, mints, transfers, failedChunks };
+  }
+
+  /**
+   * Decode one event; when its felts do not match the expected layout it is skipped (null)
+   * and its block recorded as a gap, so the loss is visible and retried after a parser fix
+   */
+  private decodeEvent<T>(
+    name: string,
+    event: StarknetEvent,
+    parse: (event: StarknetEvent) => T,
+    failedChunks: FailedRange[]
+  ): T | null {
+    try {
+      return parse(event);
+    } catch (error: any) {
+      const message = `Failed to decode ${name} in tx ${event.transaction_hash}: ${error?.message || error}`;
+      logger.warn(`${this.metadata.name}: ${message}, recording gap`);
+      const block = BigInt(event.block_number);
+      if (!failedChunks.some(chunk => chunk.fromBlock === block && chunk.toBlock === block)) {
+        failedChunks.push({ fromBlock: block, toBlock: block, error: message });
+      }
+      return null;
+    }
+  }
+}
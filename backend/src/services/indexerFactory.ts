@@ -0,0 +1,40 @@
+/**
+ * Indexer factory
+ *
+ * Maps each VM type to the ChainIndexer implementation that handles it.
+ * registerIndexer() replaces the implementation for a VM type (e.g. an alternate EVM strategy)
+ */
+
+import { MAINNET_CHAINS } from '../config/chains';
+import { ChainMetadata, VMType } from '../types/chain';
+import { ChainIndexer } from './ChainIndexer';
+import { EVMIndexer } from './EVMIndexer';
+import { SolanaIndexer } from './SolanaIndexer';
+import { StarknetIndexer } from './StarknetIndexer';
+
+export type IndexerFactory = (chain: ChainMetadata) => ChainIndexer;
+
+const factories = new Map<VMType, IndexerFactory>([
+  [VMType.EVM, chain => new EVMIndexer(chain)],
+  [VMType.SOLANA, chain => new SolanaIndexer(chain)],
+  [VMType.STARKNET, chain => new StarknetIndexer(chain)],
+]);
+
+export function registerIndexer(vmType: VMType, factory: IndexerFactory): void {
+  factories.set(vmType, factory);
+}
+
+export function createIndexer(chain: ChainMetadata): ChainIndexer {
+  const factory = factories.get(chain.vmType);
+  if (!factory) {
+    throw new Error(`No indexer registered for VM type ${chain.vmType}`);
+  }
+  return factory(chain);
+}
+
+/**
+ * Chains flagged for indexing whose VM type has a registered indexer
+ */
+export function getIndexableChains(chains: Record<number, ChainMetadata> = MAINNET_CHAINS): ChainMetadata[] {
+  return Object.values(chains).filter(chain => chain.indexed && factories.has(chain.vmType));
+}
@@ -0,0 +1,39 @@
+/**
+ * Address explorer types
+ */
+
+import { TransferMode, TransferStatus } from './transfer';
+
+export type AddressActivityDirection = 'IN' | 'OUT';
+
+// A burn by the address (OUT) or a mint to it (IN)
+export interface AddressActivity {
+  direction: AddressActivityDirection;
+  chainDomain: number;
+  counterpartyDomain: number; // Destination for OUT, source for IN (-1 if unknown)
+  amount: string;
+  txHash: string;
+  logIndex: number;
+  blockTime: Date;
+  transferId: string | null;
+  mode: TransferMode | null;
+  status: TransferStatus | null; // From cctp_transfers, if linked
+  mintRecipient: string | null; // OUT only
+}
+
+export interface AddressChainTotals {
+  chainDomain: number;
+  inCount: number;
+  outCount: number;
+  inVolume: string;
+  outVolume: string;
+}
+
+export interface AddressTransfersPage {
+  address: string;
+  totals: AddressChainTotals[];
+  items: AddressActivity[];
+  total: number;
+  limit: number;
+  offset: number;
+}
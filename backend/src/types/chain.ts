@@ -8,6 +8,17 @@ export enum VMType {
   STARKNET = 'STARKNET'
 }
 
+/**
+ * Block the indexer follows as its head
+ * - LATEST: latest block minus `confirmations`
+ * - SAFE / FINALIZED: the node's `safe` / `finalized` block tag
+ */
+export enum FinalityTag {
+  LATEST = 'latest',
+  SAFE = 'safe',
+  FINALIZED = 'finalized'
+}
+
 export interface ChainCapabilities {
   standardSource: boolean;  // Can be source for Standard Transfer
   fastSource: boolean;       // Can be source for Fast Transfer
@@ -42,12 +53,20 @@ export interface StarknetContracts {
 
 export type ChainContracts = EVMContracts | SolanaPrograms | StarknetContracts;
 
+/**
+ * RPC endpoint and its share of the chain's traffic (weight 0 = backup, only used when others fail)
+ */
+export interface RpcEndpointConfig {
+  url: string;
+  weight: number;
+}
+
 export interface ChainMetadata {
   domainId: number;
   name: string;
   vmType: VMType;
   chainId?: number | string; // EVM chain ID or Solana/Starknet identifier
-  rpcUrl: string;
+  rpcEndpoints: RpcEndpointConfig[];
   
   // Token support
   tokenSupport: TokenSupport;
@@ -60,6 +79,19 @@ export interface ChainMetadata {
   
   // Block time (for polling)
   blockTime: number; // milliseconds
+
+  // Blocks are produced exactly every blockTime (OP Stack), so log block timestamps may be
+  // interpolated between two fetched anchor blocks instead of fetching every header
+  estimateTimestamps?: boolean;
+
+  // Blocks to stay behind the head; also the depth at which reorgs are checked
+  confirmations: number;
+
+  // Head the indexer follows (confirmations only apply to LATEST)
+  finality: FinalityTag;
+
+  // Whether the scheduler runs an indexer for this chain
+  indexed: boolean;
 }
 
 export interface ChainConfig {
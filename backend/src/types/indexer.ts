@@ -0,0 +1,84 @@
+/**
+ * Indexer bookkeeping types
+ */
+
+import { Transfer, TransferMode } from './transfer';
+
+// Burn (OUT) row, as written to the burns table by every indexer
+export interface BurnRecord {
+  chainDomain: number;
+  destinationDomain: number;
+  amount: string;
+  token: string;
+  blockTime: Date;
+  txHash: string;
+  blockNumber: bigint;
+  logIndex: number;
+  nonce: string | null;
+  transferId: string | null;
+  minFinalityThreshold: number;
+  maxFee: string;
+  mode: TransferMode; // Derived from minFinalityThreshold
+  depositor: string; // Source chain format
+  mintRecipient: string; // Destination chain format
+  destinationCaller: string | null; // Destination chain format, null if anyone may relay
+  hookData: string | null;
+}
+
+// Mint (IN) row, as written to the mints table by every indexer
+export interface MintRecord {
+  chainDomain: number;
+  sourceDomain: number;
+  amount: string;
+  token: string;
+  mintRecipient: string;
+  blockTime: Date;
+  txHash: string;
+  blockNumber: bigint;
+  logIndex: number;
+  nonce: string | null;
+  transferId: string | null;
+  mode: TransferMode | null; // From the received message, if decoded
+  feeCollected: string;
+  maxFee: string | null; // From the received BurnMessageV2, if decoded
+}
+
+export interface IndexGap {
+  id: number;
+  chainDomain: number;
+  fromBlock: bigint;
+  toBlock: bigint;
+  attempts: number;
+  lastError: string | null;
+  createdAt: Date;
+  lastAttemptAt: Date | null;
+}
+
+export interface IndexGapSummary {
+  chainDomain: number;
+  openGaps: number;
+  missingBlocks: string; // BIGINT sum as string
+  oldestGapAt: Date;
+  maxAttempts: number;
+}
+
+export interface IndexRangeResult {
+  burns: number;
+  mints: number;
+  gaps: number;
+}
+
+// Height range that could not be fetched (persisted as an index gap)
+export interface FailedRange {
+  fromBlock: bigint;
+  toBlock: bigint;
+  error: string;
+}
+
+// Decoded output of one height range, before it is written
+export interface CollectedRange {
+  burns: BurnRecord[];
+  mints: MintRecord[];
+  transfers: Transfer[];
+  failedChunks: FailedRange[];
+}
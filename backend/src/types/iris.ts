@@ -3,9 +3,11 @@
  */
 
 export interface IrisMessageResponse {
-  status: 'pending' | 'complete' | 'failed';
-  attestation?: string; // Hex string
+  status: 'pending' | 'pending_confirmations' | 'complete' | 'failed';
+  attestation?: string; // Hex string ('PENDING' until signed)
   message?: string; // Raw message hex string
+  eventNonce?: string; // Nonce assigned by Iris (bytes32 hex in V2)
+  cctpVersion?: number;
   decodedMessage?: {
     messageBody: string;
     nonce: string;
@@ -13,11 +15,18 @@ export interface IrisMessageResponse {
     destinationDomain: number;
     sender: string;
     recipient: string;
+    minFinalityThreshold?: string;
+    finalityThresholdExecuted?: string;
   };
   finalityThresholdExecuted?: number;
   error?: string;
 }
 
+// GET /v2/messages/{sourceDomain}
+export interface IrisMessagesResponse {
+  messages: IrisMessageResponse[];
+}
+
 export interface IrisMessagesQueryParams {
   domain?: number;
   nonce?: string;
@@ -2,7 +2,7 @@
  * Metrics and analytics types
  */
 
-import { TransferMode, TokenType } from './transfer';
+import { TransferMode, TransferStatus, TokenType } from './transfer';
 
 export interface TransferMetricsBucket {
   bucketStart: Date;
@@ -56,27 +56,122 @@ export interface TimeSeriesPoint {
   volume: string;
 }
 
-export interface Anomaly {
+export type AnomalyType = 'PENDING_TOO_LONG' | 'NO_ATTESTATION' | 'RECEIVE_ERROR' | 'NOT_MINTED' | 'EXPIRED';
+
+// Anomaly as classified by the detector, before it is stored
+export interface DetectedAnomaly {
   transferId: string;
-  type: 'PENDING_TOO_LONG' | 'NO_ATTESTATION' | 'RECEIVE_ERROR' | 'NOT_MINTED';
+  type: AnomalyType;
+  expectedLatencyMs: number;
+  description: string;
+}
+
+export interface Anomaly extends DetectedAnomaly {
   sourceDomain: number;
   destinationDomain: number;
+  mode: TransferMode;
+  amount: string;
+  status: TransferStatus;
+  burnTxHash: string | null;
   burnAt: Date;
-  description: string;
+  ageMs: number;
+  detectedAt: Date;
+}
+
+// p95 burn -> mint latency of recently completed transfers on a route
+export interface RouteExpectedLatency {
+  sourceDomain: number;
+  destinationDomain: number;
+  mode: TransferMode;
+  samples: number;
+  p95Ms: number;
 }
 
 export enum MetricsPeriod {
   LAST_24H = '24h',
   LAST_7D = '7d',
+  LAST_30D = '30d',
   CURRENT_MONTH = 'month'
 }
 
+/**
+ * Half-open time range [from, to) queried by the metrics endpoints
+ */
+export interface TimeRange {
+  from: Date;
+  to: Date;
+}
+
 export interface ChainMinuteMetrics {
   domain: number;
   name: string;
   incomingUSDC: string;  // Amount in smallest unit (wei-like)
+  incomingFastUSDC: string; // Part of incomingUSDC minted from Fast Transfers
   incomingUSYC: string;
   outgoingUSDC: string;
+  outgoingFastUSDC: string; // Part of outgoingUSDC burned as Fast Transfers
   outgoingUSYC: string;
 }
 
+
+export interface LatencyStats {
+  count: number;
+  avgMs: number | null;
+  p50Ms: number | null;
+  p95Ms: number | null;
+  p99Ms: number | null;
+}
+
+// Settlement stages of a transfer (Iris stages need a recorded attestation time)
+export interface StageLatency {
+  burnToMint: LatencyStats;
+  burnToIris: LatencyStats;
+  irisToMint: LatencyStats;
+}
+
+export interface ModeLatency extends StageLatency {
+  mode: TransferMode;
+}
+
+export interface RouteLatency extends StageLatency {
+  fromChain: number;
+  toChain: number;
+  mode: TransferMode;
+}
+
+export interface LatencyMetrics {
+  byMode: ModeLatency[];
+  byRoute: RouteLatency[];
+}
+
+// Fees collected on mints; bps are relative to the burned amount (minted + fee)
+export interface FeeStats {
+  mintCount: number;
+  feeTotal: string;
+  volume: string;
+  effectiveFeeBps: number | null;
+  // Only over mints whose maxFee is known
+  maxFeeBps: number | null;
+}
+
+export interface DestinationFees extends FeeStats {
+  chainDomain: number;
+}
+
+export interface RouteFees extends FeeStats {
+  fromChain: number;
+  toChain: number;
+  mode: TransferMode | null;
+}
+
+export interface FeeMetrics {
+  byDestination: DestinationFees[];
+  byRoute: RouteFees[];
+}
+
+export interface FeeRevenuePoint {
+  time: string;
+  fast: string;
+  standard: string;
+  total: string;
+}
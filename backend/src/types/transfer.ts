@@ -24,19 +24,19 @@ export enum TokenType {
 }
 
 export interface Transfer {
-  transferId: string; // Composite: `${sourceDomain}-${nonce}`
+  transferId: string; // keccak256 of the MessageV2 with attester-filled fields zeroed (see utils/cctpMessage)
   sourceDomain: number;
   destinationDomain: number;
   mode: TransferMode;
   tokenType: TokenType;
   amount: string; // In token base units (e.g., 1000000 = 1 USDC with 6 decimals)
   
-  // Transaction hashes
-  burnTxHash: string;
+  // Transaction hashes (either half may be indexed first)
+  burnTxHash: string | null;
   mintTxHash: string | null;
   
   // Timestamps
-  burnAt: Date;
+  burnAt: Date | null;
   irisAttestedAt: Date | null;
   mintAt: Date | null;
   
@@ -45,7 +45,7 @@ export interface Transfer {
   errorReason: string | null;
   
   // Additional metadata
-  nonce: string;
+  nonce: string | null; // Assigned by Iris, only known once attested or minted
   messageBody: string | null;
   sender: string;
   recipient: string;
@@ -54,6 +54,37 @@ export interface Transfer {
   finalityThresholdExecuted: number | null;
 }
 
+// A burn or mint found by transaction hash, with the transfer it belongs to (if linked)
+export interface TransferLookup {
+  event: 'BURN' | 'MINT';
+  chainDomain: number;
+  sourceDomain: number; // -1 if unknown
+  destinationDomain: number;
+  amount: string;
+  logIndex: number;
+  blockTime: Date;
+  status: TransferStatus; // From the transfer, or implied by the event when unlinked
+  transfer: Transfer | null;
+}
+
+// Filters for listing transfers (all optional, combined with AND)
+export interface TransferFilters {
+  sourceDomain?: number;
+  destinationDomain?: number;
+  status?: TransferStatus;
+  mode?: TransferMode;
+  minAmount?: string; // Base units, inclusive
+  maxAmount?: string; // Base units, inclusive
+  from?: Date; // Sort time, inclusive
+  to?: Date; // Sort time, exclusive
+}
+
+// Keyset position: the sort time and ID of the last transfer of the previous page
+export interface TransferCursor {
+  sortTime: Date;
+  transferId: string;
+}
+
 export interface TransferEvent {
   type: 'BURN' | 'MESSAGE_SENT' | 'ATTESTATION' | 'RECEIVE_MESSAGE' | 'MINT' | 'ERROR';
   transferId: string;
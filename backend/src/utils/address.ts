@@ -0,0 +1,68 @@
+/**
+ * Address normalisation
+ *
+ * CCTP messages carry every address as a left-padded bytes32; indexers store them
+ * in the native format of the chain they belong to so burns and mints can be matched:
+ * - EVM: lowercase 20-byte hex
+ * - Solana: base58 pubkey
+ * - Starknet: 0x-prefixed 32-byte hex (same as the Starknet indexer's felts)
+ * Domains without a known VM type keep the lowercase bytes32
+ */
+
+import { getChainByDomain } from '../config/chains';
+import { VMType } from '../types/chain';
+import { base58Encode } from './base58';
+import { bytes32ToEvmAddress } from './cctpMessage';
+
+const ZERO_BYTES32 = '0x' + '0'.repeat(64);
+
+function toBytes32Hex(value: string): string {
+  const hex = value.startsWith('0x') ? value.slice(2) : value;
+  return '0x' + hex.toLowerCase().padStart(64, '0');
+}
+
+/**
+ * Convert a bytes32 address to the native format of the chain with `domain`
+ */
+export function bytes32ToChainAddress(value: string, domain: number): string {
+  const bytes32 = toBytes32Hex(value);
+
+  switch (getChainByDomain(domain)?.vmType) {
+    case VMType.EVM:
+      return bytes32ToEvmAddress(bytes32);
+    case VMType.SOLANA:
+      return base58Encode(Buffer.from(bytes32.slice(2), 'hex'));
+    default:
+      return bytes32;
+  }
+}
+
+/**
+ * destinationCaller in native format, or null when any caller may receive the message (bytes32(0))
+ */
+export function normalizeDestinationCaller(value: string, destinationDomain: number): string | null {
+  return toBytes32Hex(value) === ZERO_BYTES32 ? null : bytes32ToChainAddress(value, destinationDomain);
+}
+
+/**
+ * Hook data as 0x-prefixed hex, or null when empty
+ */
+export function normalizeHookData(value: string | null | undefined): string | null {
+  if (!value || value === '0x') return null;
+  return value.toLowerCase();
+}
+
+/**
+ * Normalise a user-supplied address to the format indexers store
+ * EVM addresses are lowercased, other 0x values are treated as Starknet felts, anything else (base58) is kept
+ */
+export function normalizeAddress(value: string): string {
+  const trimmed = value.trim();
+  if (/^0x[0-9a-fA-F]{40}$/.test(trimmed)) {
+    return trimmed.toLowerCase();
+  }
+  if (/^0x[0-9a-fA-F]{1,64}$/.test(trimmed)) {
+    return toBytes32Hex(trimmed);
+  }
+  return trimmed;
+}
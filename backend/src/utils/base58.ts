@@ -0,0 +1,43 @@
+/**
+ * Base58 (Bitcoin alphabet) encoding, used for Solana pubkeys, signatures and instruction data
+ */
+
+const ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+const ALPHABET_MAP = new Map(ALPHABET.split('').map((char, i) => [char, BigInt(i)]));
+
+export function base58Decode(value: string): Buffer {
+  let num = 0n;
+  for (const char of value) {
+    const digit = ALPHABET_MAP.get(char);
+    if (digit === undefined) {
+      throw new Error(`Invalid base58 character: ${char}`);
+    }
+    num = num * 58n + digit;
+  }
+
+  const hex = num === 0n ? '' : num.toString(16);
+  const bytes = Buffer.from(hex.length % 2 ? '0' + hex : hex, 'hex');
+
+  // Leading '1's encode leading zero bytes
+  let leadingZeros = 0;
+  while (leadingZeros < value.length && value[leadingZeros] === '1') leadingZeros++;
+
+  return Buffer.concat([Buffer.alloc(leadingZeros), bytes]);
+}
+
+export function base58Encode(bytes: Uint8Array): string {
+  let num = BigInt('0x' + (Buffer.from(bytes).toString('hex') || '0'));
+  let result = '';
+  while (num > 0n) {
+    result = ALPHABET[Number(num % 58n)] + result;
+    num /= 58n;
+  }
+
+  // Leading zero bytes encode as '1'
+  for (const byte of bytes) {
+    if (byte !== 0) break;
+    result = '1' + result;
+  }
+
+  return result;
+}
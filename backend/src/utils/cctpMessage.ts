@@ -0,0 +1,157 @@
+/**
+ * CCTP V2 message parsing helpers
+ *
+ * MessageV2 format:
+ * version(4) + sourceDomain(4) + destinationDomain(4) + nonce(32) + sender(32) + recipient(32)
+ * + destinationCaller(32) + minFinalityThreshold(4) + finalityThresholdExecuted(4) + messageBody(variable)
+ *
+ * BurnMessageV2 format (messageBody of a depositForBurn):
+ * version(4) + burnToken(32) + mintRecipient(32) + amount(32) + messageSender(32) + maxFee(32)
+ * + feeExecuted(32) + expirationBlock(32) + hookData(variable)
+ */
+
+import { keccak256 } from 'viem';
+import { TransferMode } from '../types/transfer';
+
+// Byte offsets in MessageV2
+const NONCE_OFFSET = 12;
+const FINALITY_THRESHOLD_EXECUTED_OFFSET = 144;
+const MESSAGE_BODY_OFFSET = 148;
+
+// Byte offsets in BurnMessageV2 (relative to messageBody)
+const FEE_EXECUTED_OFFSET = 164;
+const EXPIRATION_BLOCK_OFFSET = 196;
+const HOOK_DATA_OFFSET = 228;
+
+// Finality thresholds at or below this value are Fast Transfers (1000 = confirmed, 2000 = finalized)
+const FAST_FINALITY_THRESHOLD = 1000;
+
+const EMPTY_NONCE = '0x' + '0'.repeat(64);
+
+export interface MessageV2 {
+  version: number;
+  sourceDomain: number;
+  destinationDomain: number;
+  nonce: string; // bytes32 hex, empty on the source chain (assigned by Iris)
+  sender: string;
+  recipient: string;
+  destinationCaller: string;
+  minFinalityThreshold: number;
+  finalityThresholdExecuted: number;
+  messageBody: string;
+}
+
+export interface BurnMessageV2 {
+  version: number;
+  burnToken: string;
+  mintRecipient: string;
+  amount: string;
+  messageSender: string;
+  maxFee: string;
+  feeExecuted: string;
+  expirationBlock: string;
+  hookData: string;
+}
+
+// Read `length` bytes at `offset` from a hex string without 0x prefix
+function readBytes(hex: string, offset: number, length: number): string {
+  return hex.slice(offset * 2, (offset + length) * 2);
+}
+
+function readUint(hex: string, offset: number, length: number): bigint {
+  return BigInt('0x' + readBytes(hex, offset, length));
+}
+
+function strip0x(hex: string): string {
+  return hex.startsWith('0x') ? hex.slice(2) : hex;
+}
+
+/**
+ * Parse a raw MessageV2 (as emitted by MessageSent or passed to receiveMessage)
+ * Returns null if the message is too short
+ */
+export function parseMessageV2(message: string): MessageV2 | null {
+  const hex = strip0x(message).toLowerCase();
+  if (hex.length < MESSAGE_BODY_OFFSET * 2) {
+    return null;
+  }
+
+  return {
+    version: Number(readUint(hex, 0, 4)),
+    sourceDomain: Number(readUint(hex, 4, 4)),
+    destinationDomain: Number(readUint(hex, 8, 4)),
+    nonce: '0x' + readBytes(hex, NONCE_OFFSET, 32),
+    sender: '0x' + readBytes(hex, 44, 32),
+    recipient: '0x' + readBytes(hex, 76, 32),
+    destinationCaller: '0x' + readBytes(hex, 108, 32),
+    minFinalityThreshold: Number(readUint(hex, 140, 4)),
+    finalityThresholdExecuted: Number(readUint(hex, FINALITY_THRESHOLD_EXECUTED_OFFSET, 4)),
+    messageBody: '0x' + hex.slice(MESSAGE_BODY_OFFSET * 2),
+  };
+}
+
+/**
+ * Parse a BurnMessageV2 message body
+ * Returns null if the body is too short
+ */
+export function parseBurnMessageV2(messageBody: string): BurnMessageV2 | null {
+  const hex = strip0x(messageBody).toLowerCase();
+  if (hex.length < HOOK_DATA_OFFSET * 2) {
+    return null;
+  }
+
+  return {
+    version: Number(readUint(hex, 0, 4)),
+    burnToken: '0x' + readBytes(hex, 4, 32),
+    mintRecipient: '0x' + readBytes(hex, 36, 32),
+    amount: readUint(hex, 68, 32).toString(),
+    messageSender: '0x' + readBytes(hex, 100, 32),
+    maxFee: readUint(hex, 132, 32).toString(),
+    feeExecuted: readUint(hex, FEE_EXECUTED_OFFSET, 32).toString(),
+    expirationBlock: readUint(hex, EXPIRATION_BLOCK_OFFSET, 32).toString(),
+    hookData: '0x' + hex.slice(HOOK_DATA_OFFSET * 2),
+  };
+}
+
+/**
+ * Compute the transfer ID shared by the burn and mint halves of a transfer
+ *
+ * In V2 the nonce, finalityThresholdExecuted, feeExecuted and expirationBlock are
+ * filled in by the attester, so the source-side message has them zeroed. Hashing the
+ * message with those fields zeroed gives the same ID on both chains.
+ */
+export function computeTransferId(message: string): string {
+  const hex = strip0x(message).toLowerCase();
+  const zero = (h: string, offset: number, length: number) =>
+    h.slice(0, offset * 2) + '0'.repeat(length * 2) + h.slice((offset + length) * 2);
+
+  let normalized = zero(hex, NONCE_OFFSET, 32);
+  normalized = zero(normalized, FINALITY_THRESHOLD_EXECUTED_OFFSET, 4);
+  if (normalized.length >= (MESSAGE_BODY_OFFSET + HOOK_DATA_OFFSET) * 2) {
+    normalized = zero(normalized, MESSAGE_BODY_OFFSET + FEE_EXECUTED_OFFSET, 32);
+    normalized = zero(normalized, MESSAGE_BODY_OFFSET + EXPIRATION_BLOCK_OFFSET, 32);
+  }
+
+  return keccak256(`0x${normalized}`);
+}
+
+/**
+ * Returns true if the nonce has not been assigned yet (source-side V2 message)
+ */
+export function isEmptyNonce(nonce: string | null | undefined): boolean {
+  return !nonce || nonce.toLowerCase() === EMPTY_NONCE;
+}
+
+/**
+ * Convert a left-padded bytes32 to a 20-byte EVM address
+ */
+export function bytes32ToEvmAddress(value: string): string {
+  return '0x' + strip0x(value).slice(-40).toLowerCase();
+}
+
+/**
+ * Derive the transfer mode from the minFinalityThreshold requested at burn time
+ */
+export function getTransferMode(minFinalityThreshold: number): TransferMode {
+  return minFinalityThreshold <= FAST_FINALITY_THRESHOLD ? TransferMode.FAST : TransferMode.STANDARD;
+}
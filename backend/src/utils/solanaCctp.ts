@@ -0,0 +1,263 @@
+/**
+ * Solana CCTP V2 transaction parsing
+ *
+ * Pure functions over `getTransaction` JSON (encoding: 'json').
+ * The layout constants come from Circle's CCTP V2 Anchor programs (solana-cctp-contracts)
+ * and have not yet been checked against recorded mainnet transactions.
+ *
+ * - DepositForBurn / MintAndWithdraw are Anchor CPI events emitted by TokenMessengerMinterV2
+ *   (inner instruction data = EVENT_IX_TAG + event discriminator + borsh fields)
+ * - deposit_for_burn(_with_hook) instructions reference the MessageSent account holding the MessageV2
+ * - receive_message instructions on MessageTransmitterV2 carry the MessageV2 in their params
+ */
+
+import { createHash } from 'crypto';
+import { base58Decode, base58Encode } from './base58';
+
+// Anchor event CPI tag prefixed by emit_cpi!: u64 0x1d9acb512ea545e4 (sha256("anchor:event")[0..8]) in little endian
+const EVENT_IX_TAG = Buffer.from([0xe4, 0x45, 0xa5, 0x2e, 0x51, 0xcb, 0x9a, 0x1d]);
+
+// Account index of message_sent_event_data in deposit_for_burn(_with_hook): 12th account of the
+// DepositForBurn accounts struct (owner, event_rent_payer, sender_authority_pda, burn_token_account,
+// denylist_account, message_transmitter, token_messenger, remote_token_messenger, token_minter,
+// local_token, burn_token_mint, message_sent_event_data, ...)
+const MESSAGE_SENT_ACCOUNT_INDEX = 11;
+
+// MessageSent account (MessageTransmitterV2 state): discriminator(8) + rent_payer(32) + created_at(8) + message(vec)
+const MESSAGE_SENT_MESSAGE_OFFSET = 48;
+
+// Anchor discriminators: sha256("<namespace>:<name>")[0..8]
+function anchorDiscriminator(namespace: 'global' | 'event' | 'account', name: string): Buffer {
+  return createHash('sha256').update(`${namespace}:${name}`).digest().subarray(0, 8);
+}
+
+const DEPOSIT_FOR_BURN_IX = anchorDiscriminator('global', 'deposit_for_burn');
+const DEPOSIT_FOR_BURN_WITH_HOOK_IX = anchorDiscriminator('global', 'deposit_for_burn_with_hook');
+const RECEIVE_MESSAGE_IX = anchorDiscriminator('global', 'receive_message');
+const DEPOSIT_FOR_BURN_EVENT = anchorDiscriminator('event', 'DepositForBurn');
+const MINT_AND_WITHDRAW_EVENT = anchorDiscriminator('event', 'MintAndWithdraw');
+
+// Subset of the `getTransaction` JSON response used by the parser
+export interface SolanaInstruction {
+  programIdIndex: number;
+  accounts: number[];
+  data: string; // base58
+}
+
+export interface SolanaTransaction {
+  slot: number;
+  blockTime: number | null;
+  meta: {
+    err: unknown;
+    innerInstructions?: Array<{ index: number; instructions: SolanaInstruction[] }> | null;
+    loadedAddresses?: { writable: string[]; readonly: string[] } | null;
+  } | null;
+  transaction: {
+    signatures: string[];
+    message: {
+      accountKeys: string[];
+      instructions: SolanaInstruction[];
+    };
+  };
+}
+
+export interface SolanaCctpPrograms {
+  tokenMessengerMinter: string;
+  messageTransmitter: string;
+}
+
+export interface SolanaBurn {
+  ordinal: number; // Position of the event in the transaction
+  burnToken: string;
+  amount: string;
+  depositor: string;
+  mintRecipient: string; // bytes32 hex
+  destinationDomain: number;
+  destinationCaller: string; // bytes32 hex
+  maxFee: string;
+  minFinalityThreshold: number;
+  hookData: string;
+  messageSentAccount: string | null; // Account holding the MessageV2, if found
+}
+
+export interface SolanaMint {
+  ordinal: number;
+  mintRecipient: string;
+  amount: string;
+  mintToken: string;
+  feeCollected: string;
+  message: string | null; // MessageV2 hex from the matching receive_message, if found
+}
+
+export interface ParsedSolanaTransaction {
+  signature: string;
+  slot: number;
+  blockTime: Date;
+  burns: SolanaBurn[];
+  mints: SolanaMint[];
+}
+
+// Sequential borsh reader
+class BorshReader {
+  private offset = 0;
+
+  constructor(private readonly data: Buffer) {}
+
+  pubkey(): string {
+    const value = base58Encode(this.data.subarray(this.offset, this.offset + 32));
+    this.offset += 32;
+    return value;
+  }
+
+  bytes32Hex(): string {
+    const value = '0x' + this.data.subarray(this.offset, this.offset + 32).toString('hex');
+    this.offset += 32;
+    return value;
+  }
+
+  u32(): number {
+    const value = this.data.readUInt32LE(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  u64(): string {
+    const value = this.data.readBigUInt64LE(this.offset);
+    this.offset += 8;
+    return value.toString();
+  }
+
+  vec(): Buffer {
+    const length = this.u32();
+    const value = this.data.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return value;
+  }
+}
+
+function startsWith(data: Buffer, prefix: Buffer): boolean {
+  return data.length >= prefix.length && data.subarray(0, prefix.length).equals(prefix);
+}
+
+/**
+ * All account keys, including v0 lookup-table addresses
+ */
+function getAccountKeys(tx: SolanaTransaction): string[] {
+  return [
+    ...tx.transaction.message.accountKeys,
+    ...(tx.meta?.loadedAddresses?.writable || []),
+    ...(tx.meta?.loadedAddresses?.readonly || []),
+  ];
+}
+
+/**
+ * Top-level and inner instructions in execution order
+ */
+function flattenInstructions(tx: SolanaTransaction): SolanaInstruction[] {
+  const inner = new Map<number, SolanaInstruction[]>();
+  for (const group of tx.meta?.innerInstructions || []) {
+    inner.set(group.index, group.instructions);
+  }
+
+  return tx.transaction.message.instructions.flatMap((ix, index) => [ix, ...(inner.get(index) || [])]);
+}
+
+/**
+ * Parse CCTP burns and mints from a Solana transaction
+ * Returns null for failed transactions
+ */
+export function parseSolanaTransaction(tx: SolanaTransaction, programs: SolanaCctpPrograms): ParsedSolanaTransaction | null {
+  if (!tx.meta || tx.meta.err) {
+    return null;
+  }
+
+  const accountKeys = getAccountKeys(tx);
+  const burns: SolanaBurn[] = [];
+  const mints: SolanaMint[] = [];
+  const messageSentAccounts: string[] = [];
+  const receivedMessages: string[] = [];
+  let ordinal = 0;
+
+  for (const ix of flattenInstructions(tx)) {
+    const programId = accountKeys[ix.programIdIndex];
+    const data = base58Decode(ix.data);
+
+    if (programId === programs.messageTransmitter && startsWith(data, RECEIVE_MESSAGE_IX)) {
+      const reader = new BorshReader(data.subarray(8));
+      receivedMessages.push('0x' + reader.vec().toString('hex'));
+      continue;
+    }
+
+    if (programId !== programs.tokenMessengerMinter) continue;
+
+    if (startsWith(data, DEPOSIT_FOR_BURN_IX) || startsWith(data, DEPOSIT_FOR_BURN_WITH_HOOK_IX)) {
+      const accountIndex = ix.accounts[MESSAGE_SENT_ACCOUNT_INDEX];
+      if (accountIndex !== undefined) {
+        messageSentAccounts.push(accountKeys[accountIndex]);
+      }
+      continue;
+    }
+
+    if (!startsWith(data, EVENT_IX_TAG)) continue;
+    const event = data.subarray(EVENT_IX_TAG.length);
+
+    if (startsWith(event, DEPOSIT_FOR_BURN_EVENT)) {
+      const reader = new BorshReader(event.subarray(8));
+      const burnToken = reader.pubkey();
+      const amount = reader.u64();
+      const depositor = reader.pubkey();
+      const mintRecipient = reader.bytes32Hex();
+      const destinationDomain = reader.u32();
+      reader.bytes32Hex(); // destinationTokenMessenger
+      const destinationCaller = reader.bytes32Hex();
+      const maxFee = reader.u64();
+      const minFinalityThreshold = reader.u32();
+      const hookData = '0x' + reader.vec().toString('hex');
+
+      burns.push({
+        ordinal: ordinal++,
+        burnToken,
+        amount,
+        depositor,
+        mintRecipient,
+        destinationDomain,
+        destinationCaller,
+        maxFee,
+        minFinalityThreshold,
+        hookData,
+        messageSentAccount: messageSentAccounts[burns.length] ?? null,
+      });
+    } else if (startsWith(event, MINT_AND_WITHDRAW_EVENT)) {
+      const reader = new BorshReader(event.subarray(8));
+      mints.push({
+        ordinal: ordinal++,
+        mintRecipient: reader.pubkey(),
+        amount: reader.u64(),
+        mintToken: reader.pubkey(),
+        feeCollected: reader.u64(),
+        message: receivedMessages[mints.length] ?? null,
+      });
+    }
+  }
+
+  return {
+    signature: tx.transaction.signatures[0],
+    slot: tx.slot,
+    blockTime: tx.blockTime ? new Date(tx.blockTime * 1000) : new Date(),
+    burns,
+    mints,
+  };
+}
+
+/**
+ * Extract the MessageV2 hex from MessageSent account data (base64)
+ */
+export function parseMessageSentAccount(base64Data: string): string | null {
+  const data = Buffer.from(base64Data, 'base64');
+  if (data.length < MESSAGE_SENT_MESSAGE_OFFSET + 4) {
+    return null;
+  }
+
+  const reader = new BorshReader(data.subarray(MESSAGE_SENT_MESSAGE_OFFSET));
+  return '0x' + reader.vec().toString('hex');
+}
@@ -0,0 +1,169 @@
+/**
+ * Starknet CCTP event parsing
+ *
+ * Pure functions over `starknet_getEvents` results.
+ * keys[0] is the event selector (sn_keccak of the event name); fields marked #[key]
+ * follow it in `keys`, the rest are serialized in `data`. The field order below is
+ * assumed to mirror the EVM ABI of the same events and has not been checked against
+ * recorded mainnet events; parsers throw on short data and the indexer records the block
+ * of such an event as an index gap:
+ * - DepositForBurn   keys: burn_token, depositor, min_finality_threshold
+ *                    data: amount(u256), mint_recipient(u256), destination_domain,
+ *                          destination_token_messenger(u256), destination_caller(u256), max_fee(u256), hook_data(ByteArray)
+ * - MintAndWithdraw  keys: mint_recipient, mint_token
+ *                    data: amount(u256), fee_collected(u256)
+ * - MessageSent      data: message(ByteArray)
+ * - MessageReceived  keys: caller, nonce(u256), finality_threshold_executed
+ *                    data: source_domain, sender(u256), message_body(ByteArray)
+ */
+
+import { keccak256, toHex } from 'viem';
+
+// Starknet selectors are keccak256 truncated to 250 bits
+const MASK_250 = (1n << 250n) - 1n;
+
+export function starknetSelector(name: string): string {
+  return '0x' + (BigInt(keccak256(toHex(name))) & MASK_250).toString(16);
+}
+
+export const DEPOSIT_FOR_BURN_SELECTOR = starknetSelector('DepositForBurn');
+export const MINT_AND_WITHDRAW_SELECTOR = starknetSelector('MintAndWithdraw');
+export const MESSAGE_SENT_SELECTOR = starknetSelector('MessageSent');
+export const MESSAGE_RECEIVED_SELECTOR = starknetSelector('MessageReceived');
+
+export interface StarknetEvent {
+  from_address: string;
+  keys: string[];
+  data: string[];
+  block_number: number;
+  block_hash: string;
+  transaction_hash: string;
+}
+
+export interface StarknetBurn {
+  burnToken: string;
+  depositor: string;
+  minFinalityThreshold: number;
+  amount: string;
+  mintRecipient: string; // bytes32 hex
+  destinationDomain: number;
+  destinationCaller: string;
+  maxFee: string;
+  hookData: string;
+}
+
+export interface StarknetMint {
+  mintRecipient: string;
+  mintToken: string;
+  amount: string;
+  feeCollected: string;
+}
+
+export interface StarknetMessageReceived {
+  caller: string;
+  nonce: string; // bytes32 hex
+  finalityThresholdExecuted: number;
+  sourceDomain: number;
+  sender: string;
+}
+
+// Sequential felt reader
+class FeltReader {
+  private offset = 0;
+
+  constructor(private readonly felts: string[]) {}
+
+  felt(): bigint {
+    const value = this.felts[this.offset];
+    if (value === undefined) {
+      throw new Error('Unexpected end of event data');
+    }
+    this.offset++;
+    return BigInt(value);
+  }
+
+  number(): number {
+    return Number(this.felt());
+  }
+
+  address(): string {
+    return '0x' + this.felt().toString(16).padStart(64, '0');
+  }
+
+  // u256 is serialized as (low, high)
+  u256(): bigint {
+    const low = this.felt();
+    const high = this.felt();
+    return (high << 128n) + low;
+  }
+
+  bytes32(): string {
+    return '0x' + this.u256().toString(16).padStart(64, '0');
+  }
+
+  // ByteArray: data_len, bytes31 words..., pending_word, pending_word_len
+  byteArray(): string {
+    const wordCount = this.number();
+    let hex = '';
+    for (let i = 0; i < wordCount; i++) {
+      hex += this.felt().toString(16).padStart(62, '0');
+    }
+    const pendingWord = this.felt();
+    const pendingLength = this.number();
+    if (pendingLength > 0) {
+      hex += pendingWord.toString(16).padStart(pendingLength * 2, '0');
+    }
+    return '0x' + hex;
+  }
+}
+
+export function isSelector(event: StarknetEvent, selector: string): boolean {
+  return event.keys.length > 0 && BigInt(event.keys[0]) === BigInt(selector);
+}
+
+export function parseDepositForBurn(event: StarknetEvent): StarknetBurn {
+  const keys = new FeltReader(event.keys.slice(1));
+  const data = new FeltReader(event.data);
+
+  const burnToken = keys.address();
+  const depositor = keys.address();
+  const minFinalityThreshold = keys.number();
+  const amount = data.u256().toString();
+  const mintRecipient = data.bytes32();
+  const destinationDomain = data.number();
+  data.bytes32(); // destination_token_messenger
+  const destinationCaller = data.bytes32();
+  const maxFee = data.u256().toString();
+  const hookData = data.byteArray();
+
+  return { burnToken, depositor, minFinalityThreshold, amount, mintRecipient, destinationDomain, destinationCaller, maxFee, hookData };
+}
+
+export function parseMintAndWithdraw(event: StarknetEvent): StarknetMint {
+  const keys = new FeltReader(event.keys.slice(1));
+  const data = new FeltReader(event.data);
+
+  return {
+    mintRecipient: keys.address(),
+    mintToken: keys.address(),
+    amount: data.u256().toString(),
+    feeCollected: data.u256().toString(),
+  };
+}
+
+export function parseMessageSent(event: StarknetEvent): string {
+  return new FeltReader(event.data).byteArray();
+}
+
+export function parseMessageReceived(event: StarknetEvent): StarknetMessageReceived {
+  const keys = new FeltReader(event.keys.slice(1));
+  const data = new FeltReader(event.data);
+
+  const caller = keys.address();
+  const nonce = keys.bytes32();
+  const finalityThresholdExecuted = keys.number();
+  const sourceDomain = data.number();
+  const sender = data.bytes32();
+
+  return { caller, nonce, finalityThresholdExecuted, sourceDomain, sender };
+}
@@ -0,0 +1,82 @@
+/**
+ * Request parameter validation for API routes
+ *
+ * Parsers return undefined for absent optional values and throw ValidationError for bad input;
+ * routes answer it with a 400 and `error.toJSON()`:
+ * { error: 'Invalid buckets: expected an integer between 1 and 200', param: 'buckets' }
+ */
+
+import { getChainByDomain } from '../config/chains';
+
+export class ValidationError extends Error {
+  constructor(public readonly param: string, message: string) {
+    super(`Invalid ${param}: ${message}`);
+    this.name = 'ValidationError';
+  }
+
+  toJSON(): { error: string; param: string } {
+    return { error: this.message, param: this.param };
+  }
+}
+
+/**
+ * CCTP domain number of a configured mainnet chain
+ */
+export function parseDomain(value: unknown, param: string): number | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'string' || !/^\d+$/.test(value)) {
+    throw new ValidationError(param, 'expected a domain number');
+  }
+  const domain = parseInt(value);
+  if (!getChainByDomain(domain)) {
+    throw new ValidationError(param, `unknown domain ${domain}`);
+  }
+  return domain;
+}
+
+/**
+ * Integer in [min, max]
+ */
+export function parseInteger(value: unknown, param: string, min: number, max: number): number | undefined {
+  if (value === undefined) return undefined;
+  const parsed = typeof value === 'string' && /^-?\d+$/.test(value) ? parseInt(value) : NaN;
+  if (!(parsed >= min && parsed <= max)) {
+    throw new ValidationError(param, `expected an integer between ${min} and ${max}`);
+  }
+  return parsed;
+}
+
+/**
+ * Non-negative integer amount in base units, kept as a string
+ */
+export function parseAmount(value: unknown, param: string): string | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'string' || !/^\d+$/.test(value)) {
+    throw new ValidationError(param, 'expected an amount in base units');
+  }
+  return value;
+}
+
+/**
+ * ISO 8601 timestamp
+ */
+export function parseTime(value: unknown, param: string): Date | undefined {
+  if (value === undefined) return undefined;
+  const time = typeof value === 'string' ? new Date(value) : new Date(NaN);
+  if (isNaN(time.getTime())) {
+    throw new ValidationError(param, 'expected an ISO 8601 timestamp');
+  }
+  return time;
+}
+
+/**
+ * One of the values of a string enum (or const object)
+ */
+export function parseEnum<T extends string>(value: unknown, values: Record<string, T>, param: string): T | undefined {
+  if (value === undefined) return undefined;
+  const allowed = Object.values(values);
+  if (!allowed.includes(value as T)) {
+    throw new ValidationError(param, `expected one of ${allowed.join(', ')}`);
+  }
+  return value as T;
+}
@@ -2,33 +2,45 @@
  * Main App component
  */
 
+import { BrowserRouter, Routes, Route, Link } from 'react-router-dom';
 import Dashboard from './components/Dashboard/Dashboard';
+import AddressPage from './components/Address/AddressPage';
+import TransferPage from './components/Transfer/TransferPage';
+import SearchBox from './components/shared/SearchBox';
 import './styles/index.css';
 
 function App() {
   return (
-    <div style={{ background: '#0f172a', minHeight: '100vh', color: 'white' }}>
-      {/* Header */}
-      <header style={{
-        background: '#1e293b',
-        padding: '16px 24px',
-        borderBottom: '1px solid #334155',
-        display: 'flex',
-        justifyContent: 'space-between',
-        alignItems: 'center'
-      }}>
-        <h1 style={{ fontSize: '20px', fontWeight: 'bold', margin: 0 }}>
-          CCTP Network Explorer
-        </h1>
-      </header>
+    <BrowserRouter>
+      <div style={{ background: '#0f172a', minHeight: '100vh', color: 'white' }}>
+        {/* Header */}
+        <header style={{
+          background: '#1e293b',
+          padding: '16px 24px',
+          borderBottom: '1px solid #334155',
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center'
+        }}>
+          <h1 style={{ fontSize: '20px', fontWeight: 'bold', margin: 0 }}>
+            <Link to="/" style={{ color: 'white', textDecoration: 'none' }}>
+              CCTP Network Explorer
+            </Link>
+          </h1>
+          <SearchBox />
+        </header>
 
-      {/* Content */}
-      <main>
-        <Dashboard />
-      </main>
-    </div>
+        {/* Content */}
+        <main>
+          <Routes>
+            <Route path="/" element={<Dashboard />} />
+            <Route path="/address/:address" element={<AddressPage />} />
+            <Route path="/tx/:hash" element={<TransferPage />} />
+          </Routes>
+        </main>
+      </div>
+    </BrowserRouter>
   );
 }
 
 export default App;
-
@@ -0,0 +1,200 @@
+/**
+ * Address page - burns by and mints to an address across all chains, with totals per chain
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { apiClient } from '../../services/api';
+import { AddressTransfersPage } from '../../types/address';
+import { getChainName } from '../../utils/chainNames';
+
+const PAGE_SIZE = 50;
+
+const formatUSDC = (value: string): string => {
+  const usdc = parseFloat(value) / 1e6;
+  return `$${usdc.toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+};
+
+const shortenHash = (hash: string): string => (hash.length > 20 ? `${hash.slice(0, 10)}…${hash.slice(-8)}` : hash);
+
+const headerCell: React.CSSProperties = { padding: '8px', color: '#94a3b8', fontWeight: 'normal' };
+
+const AddressPage: React.FC = () => {
+  const { address = '' } = useParams<{ address: string }>();
+  const [page, setPage] = useState<AddressTransfersPage | null>(null);
+  const [offset, setOffset] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setOffset(0);
+  }, [address]);
+
+  useEffect(() => {
+    loadTransfers();
+  }, [address, offset]);
+
+  const loadTransfers = async () => {
+    try {
+      setLoading(true);
+      const data = await apiClient.getAddressTransfers(address, PAGE_SIZE, offset);
+      setPage(data);
+      setError(null);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (error) {
+    return (
+      <div style={{ padding: '20px', color: '#ef4444', textAlign: 'center' }}>
+        Error loading address: {error}
+      </div>
+    );
+  }
+
+  if (loading && !page) {
+    return (
+      <div style={{ padding: '20px', color: '#94a3b8', textAlign: 'center' }}>
+        Loading address...
+      </div>
+    );
+  }
+
+  if (!page) return null;
+
+  const lastItem = Math.min(page.offset + page.items.length, page.total);
+
+  return (
+    <div style={{ padding: '20px' }}>
+      <div style={{ marginBottom: '24px' }}>
+        <h1 style={{ fontSize: '24px', fontWeight: 'bold', margin: 0 }}>Address</h1>
+        <p style={{ fontSize: '14px', color: '#94a3b8', marginTop: '8px', fontFamily: 'monospace', wordBreak: 'break-all' }}>
+          {page.address}
+        </p>
+      </div>
+
+      {/* Totals per chain */}
+      <div style={{
+        background: '#1e293b',
+        padding: '20px',
+        borderRadius: '8px',
+        border: '1px solid #334155',
+        marginBottom: '24px'
+      }}>
+        <h3 style={{ fontSize: '16px', marginBottom: '16px', fontWeight: 'bold' }}>Totals by Chain</h3>
+        {page.totals.length === 0 ? (
+          <div style={{ padding: '20px', textAlign: 'center', color: '#94a3b8' }}>
+            No transfers found for this address
+          </div>
+        ) : (
+          <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '13px' }}>
+            <thead>
+              <tr style={{ borderBottom: '1px solid #334155' }}>
+                <th style={{ ...headerCell, textAlign: 'left' }}>Chain</th>
+                <th style={{ ...headerCell, textAlign: 'right' }}>Incoming</th>
+                <th style={{ ...headerCell, textAlign: 'right' }}>Mints</th>
+                <th style={{ ...headerCell, textAlign: 'right' }}>Outgoing</th>
+                <th style={{ ...headerCell, textAlign: 'right' }}>Burns</th>
+              </tr>
+            </thead>
+            <tbody>
+              {page.totals.map(chain => (
+                <tr key={chain.chainDomain} style={{ borderBottom: '1px solid #334155' }}>
+                  <td style={{ padding: '8px' }}>{getChainName(chain.chainDomain)}</td>
+                  <td style={{ padding: '8px', textAlign: 'right', color: '#10b981' }}>{formatUSDC(chain.inVolume)}</td>
+                  <td style={{ padding: '8px', textAlign: 'right' }}>{chain.inCount}</td>
+                  <td style={{ padding: '8px', textAlign: 'right', color: '#3b82f6' }}>{formatUSDC(chain.outVolume)}</td>
+                  <td style={{ padding: '8px', textAlign: 'right' }}>{chain.outCount}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* History */}
+      {page.items.length > 0 && (
+        <div style={{
+          background: '#1e293b',
+          padding: '20px',
+          borderRadius: '8px',
+          border: '1px solid #334155',
+          overflowX: 'auto'
+        }}>
+          <h3 style={{ fontSize: '16px', marginBottom: '16px', fontWeight: 'bold' }}>
+            History <span style={{ color: '#94a3b8', fontWeight: 'normal' }}>({page.total})</span>
+          </h3>
+          <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '13px' }}>
+            <thead>
+              <tr style={{ borderBottom: '1px solid #334155' }}>
+                <th style={{ ...headerCell, textAlign: 'left' }}>Time</th>
+                <th style={{ ...headerCell, textAlign: 'left' }}>Direction</th>
+                <th style={{ ...headerCell, textAlign: 'left' }}>Route</th>
+                <th style={{ ...headerCell, textAlign: 'right' }}>Amount</th>
+                <th style={{ ...headerCell, textAlign: 'left' }}>Mode</th>
+                <th style={{ ...headerCell, textAlign: 'left' }}>Status</th>
+                <th style={{ ...headerCell, textAlign: 'left' }}>Transaction</th>
+              </tr>
+            </thead>
+            <tbody>
+              {page.items.map(item => {
+                const fromChain = item.direction === 'OUT' ? item.chainDomain : item.counterpartyDomain;
+                const toChain = item.direction === 'OUT' ? item.counterpartyDomain : item.chainDomain;
+                return (
+                  <tr key={`${item.chainDomain}-${item.txHash}-${item.logIndex}`} style={{ borderBottom: '1px solid #334155' }}>
+                    <td style={{ padding: '8px', color: '#94a3b8' }}>{new Date(item.blockTime).toLocaleString()}</td>
+                    <td style={{ padding: '8px', color: item.direction === 'IN' ? '#10b981' : '#3b82f6' }}>{item.direction}</td>
+                    <td style={{ padding: '8px' }}>{getChainName(fromChain)} → {getChainName(toChain)}</td>
+                    <td style={{ padding: '8px', textAlign: 'right' }}>{formatUSDC(item.amount)}</td>
+                    <td style={{ padding: '8px', color: '#94a3b8' }}>{item.mode ?? '-'}</td>
+                    <td style={{ padding: '8px', color: '#94a3b8' }}>{item.status ?? '-'}</td>
+                    <td style={{ padding: '8px', fontFamily: 'monospace' }}>
+                      <Link to={`/tx/${item.txHash}`} style={{ color: '#3b82f6' }}>
+                        {shortenHash(item.txHash)}
+                      </Link>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginTop: '16px', fontSize: '13px', color: '#94a3b8' }}>
+            <span>{page.offset + 1}–{lastItem} of {page.total}</span>
+            <div style={{ display: 'flex', gap: '8px' }}>
+              <button
+                onClick={() => setOffset(Math.max(offset - PAGE_SIZE, 0))}
+                disabled={offset === 0 || loading}
+                style={pagerButton(offset === 0)}
+              >
+                Previous
+              </button>
+              <button
+                onClick={() => setOffset(offset + PAGE_SIZE)}
+                disabled={lastItem >= page.total || loading}
+                style={pagerButton(lastItem >= page.total)}
+              >
+                Next
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const pagerButton = (disabled: boolean): React.CSSProperties => ({
+  padding: '6px 12px',
+  borderRadius: '6px',
+  border: '1px solid #334155',
+  background: '#1e293b',
+  color: disabled ? '#475569' : '#94a3b8',
+  cursor: disabled ? 'default' : 'pointer',
+  fontSize: '13px'
+});
+
+export default AddressPage;
@@ -3,8 +3,9 @@
  */
 
 import React, { useEffect, useState } from 'react';
-import { apiClient, Period } from '../../services/api';
+import { apiClient, TimeSelection } from '../../services/api';
 import { getChainName } from '../../utils/chainNames';
+import { getPeriodLabel } from '../../utils/periods';
 import ChainVolumeChart from './ChainVolumeChart';
 
 type BreakdownType = 'outgoing' | 'incoming';
@@ -18,15 +19,15 @@ interface ChainRowProps {
     chainTotal: number;
     percentage: number;
   };
-  period: Period;
+  period: TimeSelection;
   isExpanded: boolean;
   onToggle: () => void;
 }
 
 const ChainRow: React.FC<ChainRowProps> = ({ chain, period, isExpanded, onToggle }) => {
   const [breakdownType, setBreakdownType] = useState<BreakdownType>('outgoing');
-  const [outgoing, setOutgoing] = useState<Array<{ destinationDomain: number; volume: string }>>([]);
-  const [incoming, setIncoming] = useState<Array<{ sourceDomain: number; volume: string }>>([]);
+  const [outgoing, setOutgoing] = useState<Array<{ destinationDomain: number; volume: string; fastVolume: string }>>([]);
+  const [incoming, setIncoming] = useState<Array<{ sourceDomain: number; volume: string; fastVolume: string }>>([]);
   const [chartData, setChartData] = useState<Array<{ time: string; total: string;[key: string]: string }>>([]);
   const [loading, setLoading] = useState(false);
   const [chartLoading, setChartLoading] = useState(false);
@@ -80,15 +81,10 @@ const ChainRow: React.FC<ChainRowProps> = ({ chain, period, isExpanded, onToggle
 
   const totalOutgoing = outgoing.reduce((sum, item) => sum + parseFloat(item.volume), 0);
   const totalIncoming = incoming.reduce((sum, item) => sum + parseFloat(item.volume), 0);
-  const currentData: Array<{ volume: string;[key: string]: number | string }> = breakdownType === 'outgoing' ? outgoing : incoming;
+  const currentData: Array<{ volume: string; fastVolume: string;[key: string]: number | string }> = breakdownType === 'outgoing' ? outgoing : incoming;
   const currentTotal = breakdownType === 'outgoing' ? totalOutgoing : totalIncoming;
 
-  const periodLabel = period === '1min' ? 'Last Minute' :
-    period === '5min' ? 'Last 5 Minutes' :
-      period === '15min' ? 'Last 15 Minutes' :
-        period === '1h' ? 'Last Hour' :
-          period === '4h' ? 'Last 4 Hours' :
-            'Last 24 Hours';
+  const periodLabel = getPeriodLabel(period);
 
   return (
     <>
@@ -223,6 +219,9 @@ const ChainRow: React.FC<ChainRowProps> = ({ chain, period, isExpanded, onToggle
                         <th style={{ padding: '10px', textAlign: 'right', color: '#94a3b8', fontWeight: '500', fontSize: '13px' }}>
                           % of Total
                         </th>
+                        <th style={{ padding: '10px', textAlign: 'right', color: '#94a3b8', fontWeight: '500', fontSize: '13px' }}>
+                          Fast Share
+                        </th>
                       </tr>
                     </thead>
                     <tbody>
@@ -231,11 +230,12 @@ const ChainRow: React.FC<ChainRowProps> = ({ chain, period, isExpanded, onToggle
                         .map((item, index) => {
                           const volume = parseFloat(item.volume);
                           const percentage = currentTotal > 0 ? (volume / currentTotal * 100) : 0;
+                          const fastShare = volume > 0 ? (parseFloat(item.fastVolume) / volume * 100) : 0;
                           let domain: number;
                           if (breakdownType === 'outgoing') {
-                            domain = (item as { destinationDomain: number; volume: string }).destinationDomain;
+                            domain = (item as { destinationDomain: number; volume: string; fastVolume: string }).destinationDomain;
                           } else {
-                            domain = (item as { sourceDomain: number; volume: string }).sourceDomain;
+                            domain = (item as { sourceDomain: number; volume: string; fastVolume: string }).sourceDomain;
                           }
                           const chainName = getChainName(domain);
                           return (
@@ -254,6 +254,9 @@ const ChainRow: React.FC<ChainRowProps> = ({ chain, period, isExpanded, onToggle
                               <td style={{ padding: '10px', textAlign: 'right', color: '#94a3b8', fontSize: '13px' }}>
                                 {percentage.toFixed(2)}%
                               </td>
+                              <td style={{ padding: '10px', textAlign: 'right', color: '#f59e0b', fontSize: '13px' }}>
+                                {fastShare.toFixed(1)}%
+                              </td>
                             </tr>
                           );
                         })}
@@ -3,26 +3,25 @@
  */
 
 import React, { useEffect, useState } from 'react';
-import { apiClient, Period } from '../../services/api';
-import { ChainMinuteMetrics } from '../../types/metrics';
+import { apiClient, TimeSelection } from '../../services/api';
+import { ChainMinuteMetrics, TotalVolume, LatencyMetrics, FeeMetrics, FeeRevenuePoint, AnomaliesResponse } from '../../types/metrics';
 import PeriodSelector from '../shared/PeriodSelector';
 import VolumeChart from './VolumeChart';
+import LatencyChart from './LatencyChart';
+import FeeChart from './FeeChart';
+import StuckTransfersPanel from './StuckTransfersPanel';
 import ChainRow from './ChainRow';
-
-const PERIOD_LABELS: Record<Period, string> = {
-  '1min': 'Last Minute',
-  '5min': 'Last 5 Minutes',
-  '15min': 'Last 15 Minutes',
-  '1h': 'Last Hour',
-  '4h': 'Last 4 Hours',
-  '24h': 'Last 24 Hours',
-};
+import { getPeriodLabel } from '../../utils/periods';
 
 const Dashboard: React.FC = () => {
   const [chainMetrics, setChainMetrics] = useState<ChainMinuteMetrics[]>([]);
-  const [totalVolume, setTotalVolume] = useState<{ in: string; out: string; total: string } | null>(null);
+  const [totalVolume, setTotalVolume] = useState<TotalVolume | null>(null);
   const [chartData, setChartData] = useState<Array<{ time: string; in: string; out: string; total: string }>>([]);
-  const [period, setPeriod] = useState<Period>('24h');
+  const [latency, setLatency] = useState<LatencyMetrics | null>(null);
+  const [fees, setFees] = useState<FeeMetrics | null>(null);
+  const [feeChart, setFeeChart] = useState<FeeRevenuePoint[]>([]);
+  const [anomalies, setAnomalies] = useState<AnomaliesResponse | null>(null);
+  const [period, setPeriod] = useState<TimeSelection>('24h');
   const [expandedChain, setExpandedChain] = useState<number | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -36,14 +35,22 @@ const Dashboard: React.FC = () => {
   const loadAllData = async () => {
     try {
       setLoading(true);
-      const [metrics, volume, chart] = await Promise.all([
+      const [metrics, volume, chart, latencyMetrics, feeMetrics, feeChartData, stuck] = await Promise.all([
         apiClient.getChainMetrics(period),
         apiClient.getTotalVolume(period),
         apiClient.getVolumeChart(period, 20),
+        apiClient.getLatency(period),
+        apiClient.getFees(period),
+        apiClient.getFeeChart(period, 20),
+        apiClient.getAnomalies(),
       ]);
       setChainMetrics(metrics);
       setTotalVolume(volume);
       setChartData(chart);
+      setLatency(latencyMetrics);
+      setFees(feeMetrics);
+      setFeeChart(feeChartData);
+      setAnomalies(stuck);
       setError(null);
     } catch (err: any) {
       setError(err.message);
@@ -88,7 +95,7 @@ const Dashboard: React.FC = () => {
         <div style={{ display: 'flex', alignItems: 'center', gap: '16px', flexWrap: 'wrap' }}>
           <PeriodSelector selected={period} onChange={setPeriod} />
           <span style={{ fontSize: '13px', color: '#64748b', fontStyle: 'italic' }}>
-            Showing data for: <strong style={{ color: '#94a3b8' }}>{PERIOD_LABELS[period]}</strong>
+            Showing data for: <strong style={{ color: '#94a3b8' }}>{getPeriodLabel(period)}</strong>
           </span>
         </div>
       </div>
@@ -123,6 +130,22 @@ const Dashboard: React.FC = () => {
               ${(parseFloat(totalVolume.out) / 1e6).toLocaleString(undefined, { maximumFractionDigits: 2 })}M
             </div>
           </div>
+          <div>
+            <div style={{ fontSize: '12px', color: '#94a3b8', marginBottom: '4px' }}>Finalized Volume</div>
+            <div style={{ fontSize: '24px', fontWeight: 'bold', color: '#a855f7' }}>
+              ${(parseFloat(totalVolume.finalized.total) / 1e6).toLocaleString(undefined, { maximumFractionDigits: 2 })}M
+            </div>
+            <div style={{ fontSize: '12px', color: '#64748b', marginTop: '4px' }}>
+              Provisional: ${((parseFloat(totalVolume.total) - parseFloat(totalVolume.finalized.total)) / 1e6).toLocaleString(undefined, { maximumFractionDigits: 2 })}M
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Stuck Transfers */}
+      {anomalies && (
+        <div style={{ marginBottom: '24px' }}>
+          <StuckTransfersPanel data={anomalies} />
         </div>
       )}
 
@@ -133,6 +156,20 @@ const Dashboard: React.FC = () => {
         </div>
       )}
 
+      {/* Settlement Latency */}
+      {latency && (
+        <div style={{ marginBottom: '24px' }}>
+          <LatencyChart data={latency} />
+        </div>
+      )}
+
+      {/* Fee Revenue */}
+      {fees && (
+        <div style={{ marginBottom: '24px' }}>
+          <FeeChart fees={fees} revenue={feeChart} />
+        </div>
+      )}
+
       {/* Chain Metrics Table */}
       <div style={{
         background: '#1e293b',
@@ -0,0 +1,106 @@
+/**
+ * Fee revenue component - fees collected on mints over time and effective fee vs maxFee per route
+ */
+
+import React from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { FeeMetrics, FeeRevenuePoint } from '../../types/metrics';
+import { getChainName } from '../../utils/chainNames';
+
+interface FeeChartProps {
+  fees: FeeMetrics;
+  revenue: FeeRevenuePoint[];
+}
+
+// Routes listed in the table (highest fees first)
+const MAX_ROUTES = 10;
+
+const formatUSDC = (value: string): string => {
+  const usdc = parseFloat(value) / 1e6;
+  return `$${usdc.toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+};
+
+const formatBps = (bps: number | null): string => (bps === null ? '-' : `${bps.toFixed(2)} bps`);
+
+const FeeChart: React.FC<FeeChartProps> = ({ fees, revenue }) => {
+  const chartData = revenue.map(point => ({
+    time: new Date(point.time).toLocaleTimeString(),
+    fast: parseFloat(point.fast) / 1e6,
+    standard: parseFloat(point.standard) / 1e6,
+    total: parseFloat(point.total) / 1e6,
+  }));
+
+  const routes = fees.byRoute.slice(0, MAX_ROUTES);
+  const totalFees = fees.byDestination.reduce((sum, chain) => sum + parseFloat(chain.feeTotal), 0);
+
+  return (
+    <div style={{
+      background: '#1e293b',
+      padding: '20px',
+      borderRadius: '8px',
+      border: '1px solid #334155'
+    }}>
+      <h3 style={{ fontSize: '16px', marginBottom: '16px', fontWeight: 'bold' }}>
+        Fee Revenue <span style={{ color: '#94a3b8', fontWeight: 'normal' }}>({formatUSDC(totalFees.toString())})</span>
+      </h3>
+
+      <div style={{ height: '300px' }}>
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+            <XAxis dataKey="time" stroke="#94a3b8" style={{ fontSize: '12px' }} />
+            <YAxis
+              stroke="#94a3b8"
+              style={{ fontSize: '12px' }}
+              tickFormatter={(value) => `$${value.toFixed(0)}`}
+            />
+            <Tooltip
+              contentStyle={{
+                background: '#0f172a',
+                border: '1px solid #334155',
+                borderRadius: '6px',
+                color: '#fff'
+              }}
+              formatter={(value: number) => [`$${value.toFixed(2)}`, '']}
+            />
+            <Legend />
+            <Line type="monotone" dataKey="fast" stroke="#f59e0b" strokeWidth={2} name="Fast" dot={false} />
+            <Line type="monotone" dataKey="standard" stroke="#10b981" strokeWidth={2} name="Standard" dot={false} />
+            <Line type="monotone" dataKey="total" stroke="#3b82f6" strokeWidth={2} name="Total" dot={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      {routes.length > 0 && (
+        <table style={{ width: '100%', borderCollapse: 'collapse', marginTop: '20px', fontSize: '13px' }}>
+          <thead>
+            <tr style={{ borderBottom: '1px solid #334155' }}>
+              <th style={{ padding: '8px', textAlign: 'left', color: '#94a3b8', fontWeight: 'normal' }}>Route</th>
+              <th style={{ padding: '8px', textAlign: 'left', color: '#94a3b8', fontWeight: 'normal' }}>Mode</th>
+              <th style={{ padding: '8px', textAlign: 'right', color: '#94a3b8', fontWeight: 'normal' }}>Mints</th>
+              <th style={{ padding: '8px', textAlign: 'right', color: '#94a3b8', fontWeight: 'normal' }}>Fees</th>
+              <th style={{ padding: '8px', textAlign: 'right', color: '#94a3b8', fontWeight: 'normal' }}>Effective</th>
+              <th style={{ padding: '8px', textAlign: 'right', color: '#94a3b8', fontWeight: 'normal' }}>Max Fee</th>
+            </tr>
+          </thead>
+          <tbody>
+            {routes.map(route => (
+              <tr key={`${route.fromChain}-${route.toChain}-${route.mode}`} style={{ borderBottom: '1px solid #334155' }}>
+                <td style={{ padding: '8px' }}>
+                  {getChainName(route.fromChain)} → {getChainName(route.toChain)}
+                </td>
+                <td style={{ padding: '8px', color: '#94a3b8' }}>{route.mode ?? '-'}</td>
+                <td style={{ padding: '8px', textAlign: 'right' }}>{route.mintCount}</td>
+                <td style={{ padding: '8px', textAlign: 'right' }}>{formatUSDC(route.feeTotal)}</td>
+                <td style={{ padding: '8px', textAlign: 'right' }}>{formatBps(route.effectiveFeeBps)}</td>
+                <td style={{ padding: '8px', textAlign: 'right', color: '#94a3b8' }}>{formatBps(route.maxFeeBps)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default FeeChart;
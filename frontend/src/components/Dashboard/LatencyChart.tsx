@@ -0,0 +1,124 @@
+/**
+ * Settlement latency component - burn to mint percentiles per mode and slowest routes
+ */
+
+import React from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { LatencyMetrics, LatencyStats } from '../../types/metrics';
+import { getChainName } from '../../utils/chainNames';
+
+interface LatencyChartProps {
+  data: LatencyMetrics;
+}
+
+// Routes listed in the table (most transfers first)
+const MAX_ROUTES = 10;
+
+const formatDuration = (ms: number | null): string => {
+  if (ms === null) return '-';
+  if (ms < 60000) return `${(ms / 1000).toFixed(1)}s`;
+  return `${(ms / 60000).toFixed(1)}m`;
+};
+
+const toSeconds = (ms: number | null): number => (ms === null ? 0 : ms / 1000);
+
+const LatencyChart: React.FC<LatencyChartProps> = ({ data }) => {
+  const stageRows: Array<{ label: string; key: 'burnToMint' | 'burnToIris' | 'irisToMint' }> = [
+    { label: 'Burn → Mint', key: 'burnToMint' },
+    { label: 'Burn → Attestation', key: 'burnToIris' },
+    { label: 'Attestation → Mint', key: 'irisToMint' },
+  ];
+
+  const chartData = data.byMode.flatMap(mode =>
+    stageRows.map(stage => {
+      const stats: LatencyStats = mode[stage.key];
+      return {
+        name: `${mode.mode} · ${stage.label}`,
+        p50: toSeconds(stats.p50Ms),
+        p95: toSeconds(stats.p95Ms),
+        p99: toSeconds(stats.p99Ms),
+      };
+    })
+  );
+
+  const routes = data.byRoute.slice(0, MAX_ROUTES);
+
+  return (
+    <div style={{
+      background: '#1e293b',
+      padding: '20px',
+      borderRadius: '8px',
+      border: '1px solid #334155'
+    }}>
+      <h3 style={{ fontSize: '16px', marginBottom: '16px', fontWeight: 'bold' }}>
+        Settlement Latency
+      </h3>
+
+      {chartData.length === 0 ? (
+        <div style={{ padding: '20px', textAlign: 'center', color: '#94a3b8' }}>
+          No completed transfers in this period
+        </div>
+      ) : (
+        <div style={{ height: '300px' }}>
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+              <XAxis dataKey="name" stroke="#94a3b8" style={{ fontSize: '11px' }} />
+              <YAxis
+                stroke="#94a3b8"
+                style={{ fontSize: '12px' }}
+                tickFormatter={(value) => `${value.toFixed(0)}s`}
+              />
+              <Tooltip
+                contentStyle={{
+                  background: '#0f172a',
+                  border: '1px solid #334155',
+                  borderRadius: '6px',
+                  color: '#fff'
+                }}
+                formatter={(value: number) => [formatDuration(value * 1000), '']}
+              />
+              <Legend />
+              <Bar dataKey="p50" fill="#10b981" name="p50" />
+              <Bar dataKey="p95" fill="#f59e0b" name="p95" />
+              <Bar dataKey="p99" fill="#ef4444" name="p99" />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+
+      {routes.length > 0 && (
+        <table style={{ width: '100%', borderCollapse: 'collapse', marginTop: '20px', fontSize: '13px' }}>
+          <thead>
+            <tr style={{ borderBottom: '1px solid #334155' }}>
+              <th style={{ padding: '8px', textAlign: 'left', color: '#94a3b8', fontWeight: 'normal' }}>Route</th>
+              <th style={{ padding: '8px', textAlign: 'left', color: '#94a3b8', fontWeight: 'normal' }}>Mode</th>
+              <th style={{ padding: '8px', textAlign: 'right', color: '#94a3b8', fontWeight: 'normal' }}>Transfers</th>
+              <th style={{ padding: '8px', textAlign: 'right', color: '#94a3b8', fontWeight: 'normal' }}>Avg</th>
+              <th style={{ padding: '8px', textAlign: 'right', color: '#10b981', fontWeight: 'normal' }}>p50</th>
+              <th style={{ padding: '8px', textAlign: 'right', color: '#f59e0b', fontWeight: 'normal' }}>p95</th>
+              <th style={{ padding: '8px', textAlign: 'right', color: '#ef4444', fontWeight: 'normal' }}>p99</th>
+            </tr>
+          </thead>
+          <tbody>
+            {routes.map(route => (
+              <tr key={`${route.fromChain}-${route.toChain}-${route.mode}`} style={{ borderBottom: '1px solid #334155' }}>
+                <td style={{ padding: '8px' }}>
+                  {getChainName(route.fromChain)} → {getChainName(route.toChain)}
+                </td>
+                <td style={{ padding: '8px', color: '#94a3b8' }}>{route.mode}</td>
+                <td style={{ padding: '8px', textAlign: 'right' }}>{route.burnToMint.count}</td>
+                <td style={{ padding: '8px', textAlign: 'right' }}>{formatDuration(route.burnToMint.avgMs)}</td>
+                <td style={{ padding: '8px', textAlign: 'right' }}>{formatDuration(route.burnToMint.p50Ms)}</td>
+                <td style={{ padding: '8px', textAlign: 'right' }}>{formatDuration(route.burnToMint.p95Ms)}</td>
+                <td style={{ padding: '8px', textAlign: 'right' }}>{formatDuration(route.burnToMint.p99Ms)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default LatencyChart;
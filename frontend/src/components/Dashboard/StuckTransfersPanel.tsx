@@ -0,0 +1,103 @@
+/**
+ * Stuck transfers panel - burned transfers not minted within their route's expected latency
+ */
+
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { AnomaliesResponse, AnomalyType } from '../../types/metrics';
+import { getChainName } from '../../utils/chainNames';
+
+interface StuckTransfersPanelProps {
+  data: AnomaliesResponse;
+}
+
+// Transfers listed in the table (oldest first)
+const MAX_ROWS = 10;
+
+const ANOMALY_LABELS: Record<AnomalyType, { label: string; color: string }> = {
+  NO_ATTESTATION: { label: 'No attestation', color: '#f59e0b' },
+  PENDING_TOO_LONG: { label: 'Attestation pending', color: '#f59e0b' },
+  NOT_MINTED: { label: 'Not minted', color: '#a855f7' },
+  RECEIVE_ERROR: { label: 'Receive error', color: '#ef4444' },
+  EXPIRED: { label: 'Expired', color: '#ef4444' },
+};
+
+const formatAge = (ms: number): string => {
+  if (ms < 3600000) return `${Math.round(ms / 60000)}m`;
+  if (ms < 86400000) return `${(ms / 3600000).toFixed(1)}h`;
+  return `${(ms / 86400000).toFixed(1)}d`;
+};
+
+const formatUSDC = (value: string): string => {
+  const usdc = parseFloat(value) / 1e6;
+  return `$${usdc.toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+};
+
+const StuckTransfersPanel: React.FC<StuckTransfersPanelProps> = ({ data }) => {
+  const total = Object.values(data.counts).reduce((sum, count) => sum + count, 0);
+  const rows = data.anomalies.slice(0, MAX_ROWS);
+
+  return (
+    <div style={{
+      background: '#1e293b',
+      padding: '20px',
+      borderRadius: '8px',
+      border: '1px solid',
+      borderColor: total > 0 ? '#7f1d1d' : '#334155'
+    }}>
+      <h3 style={{ fontSize: '16px', marginBottom: '16px', fontWeight: 'bold' }}>
+        Stuck Transfers <span style={{ color: total > 0 ? '#ef4444' : '#94a3b8', fontWeight: 'normal' }}>({total})</span>
+      </h3>
+
+      <div style={{ display: 'flex', gap: '16px', flexWrap: 'wrap', marginBottom: total > 0 ? '16px' : 0 }}>
+        {(Object.keys(ANOMALY_LABELS) as AnomalyType[]).map(type => (
+          <div key={type} style={{ fontSize: '13px', color: '#94a3b8' }}>
+            {ANOMALY_LABELS[type].label}:{' '}
+            <strong style={{ color: data.counts[type] > 0 ? ANOMALY_LABELS[type].color : '#94a3b8' }}>
+              {data.counts[type]}
+            </strong>
+          </div>
+        ))}
+      </div>
+
+      {rows.length > 0 && (
+        <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '13px' }}>
+          <thead>
+            <tr style={{ borderBottom: '1px solid #334155' }}>
+              <th style={{ padding: '8px', textAlign: 'left', color: '#94a3b8', fontWeight: 'normal' }}>Route</th>
+              <th style={{ padding: '8px', textAlign: 'left', color: '#94a3b8', fontWeight: 'normal' }}>Mode</th>
+              <th style={{ padding: '8px', textAlign: 'right', color: '#94a3b8', fontWeight: 'normal' }}>Amount</th>
+              <th style={{ padding: '8px', textAlign: 'left', color: '#94a3b8', fontWeight: 'normal' }}>Issue</th>
+              <th style={{ padding: '8px', textAlign: 'right', color: '#94a3b8', fontWeight: 'normal' }}>Age</th>
+              <th style={{ padding: '8px', textAlign: 'right', color: '#94a3b8', fontWeight: 'normal' }}>Expected</th>
+              <th style={{ padding: '8px', textAlign: 'left', color: '#94a3b8', fontWeight: 'normal' }}>Burn Tx</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(anomaly => (
+              <tr key={anomaly.transferId} style={{ borderBottom: '1px solid #334155' }} title={anomaly.description}>
+                <td style={{ padding: '8px' }}>
+                  {getChainName(anomaly.sourceDomain)} → {getChainName(anomaly.destinationDomain)}
+                </td>
+                <td style={{ padding: '8px', color: '#94a3b8' }}>{anomaly.mode}</td>
+                <td style={{ padding: '8px', textAlign: 'right' }}>{formatUSDC(anomaly.amount)}</td>
+                <td style={{ padding: '8px', color: ANOMALY_LABELS[anomaly.type].color }}>{ANOMALY_LABELS[anomaly.type].label}</td>
+                <td style={{ padding: '8px', textAlign: 'right' }}>{formatAge(anomaly.ageMs)}</td>
+                <td style={{ padding: '8px', textAlign: 'right', color: '#94a3b8' }}>{formatAge(anomaly.expectedLatencyMs)}</td>
+                <td style={{ padding: '8px', fontFamily: 'monospace' }}>
+                  {anomaly.burnTxHash ? (
+                    <Link to={`/tx/${anomaly.burnTxHash}`} style={{ color: '#3b82f6' }}>
+                      {anomaly.burnTxHash.slice(0, 10)}…
+                    </Link>
+                  ) : '-'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default StuckTransfersPanel;
@@ -0,0 +1,241 @@
+/**
+ * Transfer page - transfers burned or minted in a transaction, with the burn → attestation → mint timeline
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { apiClient } from '../../services/api';
+import { TransferLookup, TransferStatus } from '../../types/transfer';
+import { getChainName } from '../../utils/chainNames';
+
+const STATUS_COLORS: Partial<Record<TransferStatus, string>> = {
+  [TransferStatus.MINT_COMPLETE]: '#10b981',
+  [TransferStatus.ATTESTATION_COMPLETE]: '#3b82f6',
+  [TransferStatus.ERROR]: '#ef4444',
+  [TransferStatus.EXPIRED]: '#ef4444',
+};
+
+interface TimelineStep {
+  label: string;
+  chainDomain: number | null;
+  time: string | null;
+  txHash: string | null;
+}
+
+const formatUSDC = (value: string): string => {
+  const usdc = parseFloat(value) / 1e6;
+  return `$${usdc.toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+};
+
+const formatDuration = (ms: number): string => {
+  if (ms < 60000) return `${(ms / 1000).toFixed(1)}s`;
+  if (ms < 3600000) return `${(ms / 60000).toFixed(1)}m`;
+  return `${(ms / 3600000).toFixed(1)}h`;
+};
+
+const toIso = (value: Date | string | null): string | null => (value === null ? null : new Date(value).toISOString());
+
+// Steps of a transfer; unlinked events only know their own half
+const buildTimeline = (result: TransferLookup): TimelineStep[] => {
+  const transfer = result.transfer;
+  if (transfer) {
+    return [
+      { label: 'Burn', chainDomain: transfer.sourceDomain, time: toIso(transfer.burnAt), txHash: transfer.burnTxHash },
+      { label: 'Attestation', chainDomain: null, time: toIso(transfer.irisAttestedAt), txHash: null },
+      { label: 'Mint', chainDomain: transfer.destinationDomain, time: toIso(transfer.mintAt), txHash: transfer.mintTxHash },
+    ];
+  }
+
+  const burned = result.event === 'BURN';
+  return [
+    { label: 'Burn', chainDomain: result.sourceDomain, time: burned ? result.blockTime : null, txHash: null },
+    { label: 'Attestation', chainDomain: null, time: null, txHash: null },
+    { label: 'Mint', chainDomain: result.destinationDomain, time: burned ? null : result.blockTime, txHash: null },
+  ];
+};
+
+const Timeline: React.FC<{ steps: TimelineStep[]; currentTxHash: string }> = ({ steps, currentTxHash }) => (
+  <div style={{ display: 'flex', alignItems: 'stretch', gap: '8px', flexWrap: 'wrap' }}>
+    {steps.map((step, i) => {
+      const previous = i > 0 ? steps[i - 1].time : null;
+      const elapsed = previous && step.time ? new Date(step.time).getTime() - new Date(previous).getTime() : null;
+      return (
+        <React.Fragment key={step.label}>
+          {i > 0 && (
+            <div style={{ alignSelf: 'center', color: '#64748b', fontSize: '12px', textAlign: 'center', minWidth: '60px' }}>
+              →
+              {elapsed !== null && elapsed >= 0 && <div>{formatDuration(elapsed)}</div>}
+            </div>
+          )}
+          <div style={{
+            flex: 1,
+            minWidth: '180px',
+            padding: '12px',
+            borderRadius: '6px',
+            border: '1px solid',
+            borderColor: step.time ? '#10b981' : '#334155',
+            background: '#0f172a'
+          }}>
+            <div style={{ fontSize: '13px', fontWeight: 'bold', marginBottom: '4px' }}>
+              {step.label}
+              {step.chainDomain !== null && (
+                <span style={{ color: '#94a3b8', fontWeight: 'normal' }}> · {getChainName(step.chainDomain)}</span>
+              )}
+            </div>
+            <div style={{ fontSize: '12px', color: step.time ? '#fff' : '#64748b' }}>
+              {step.time ? new Date(step.time).toLocaleString() : 'Pending'}
+            </div>
+            {step.txHash && (
+              <div style={{ fontSize: '12px', fontFamily: 'monospace', marginTop: '4px', wordBreak: 'break-all' }}>
+                {step.txHash === currentTxHash ? (
+                  <span style={{ color: '#94a3b8' }}>{step.txHash}</span>
+                ) : (
+                  <Link to={`/tx/${step.txHash}`} style={{ color: '#3b82f6' }}>{step.txHash}</Link>
+                )}
+              </div>
+            )}
+          </div>
+        </React.Fragment>
+      );
+    })}
+  </div>
+);
+
+const TransferPage: React.FC = () => {
+  const { hash = '' } = useParams<{ hash: string }>();
+  const [results, setResults] = useState<TransferLookup[] | null>(null);
+  const [txHash, setTxHash] = useState(hash);
+  const [notFound, setNotFound] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadTransfers();
+  }, [hash]);
+
+  const loadTransfers = async () => {
+    try {
+      setLoading(true);
+      setNotFound(false);
+      const data = await apiClient.getTransfersByTx(hash);
+      setResults(data.results);
+      setTxHash(data.txHash);
+      setError(null);
+    } catch (err: any) {
+      if (err.response?.status === 404) {
+        setResults(null);
+        setNotFound(true);
+        setError(null);
+      } else {
+        setError(err.message);
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (error) {
+    return (
+      <div style={{ padding: '20px', color: '#ef4444', textAlign: 'center' }}>
+        Error loading transaction: {error}
+      </div>
+    );
+  }
+
+  if (loading && !results) {
+    return (
+      <div style={{ padding: '20px', color: '#94a3b8', textAlign: 'center' }}>
+        Loading transaction...
+      </div>
+    );
+  }
+
+  if (notFound || !results) {
+    return (
+      <div style={{ padding: '20px', color: '#94a3b8', textAlign: 'center' }}>
+        No CCTP burn or mint found for this transaction.{' '}
+        <Link to={`/address/${encodeURIComponent(hash)}`} style={{ color: '#3b82f6' }}>Search as an address</Link>
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ padding: '20px' }}>
+      <div style={{ marginBottom: '24px' }}>
+        <h1 style={{ fontSize: '24px', fontWeight: 'bold', margin: 0 }}>Transaction</h1>
+        <p style={{ fontSize: '14px', color: '#94a3b8', marginTop: '8px', fontFamily: 'monospace', wordBreak: 'break-all' }}>
+          {txHash}
+        </p>
+      </div>
+
+      {results.map(result => {
+        const transfer = result.transfer;
+        return (
+          <div
+            key={`${result.event}-${result.chainDomain}-${result.logIndex}`}
+            style={{
+              background: '#1e293b',
+              padding: '20px',
+              borderRadius: '8px',
+              border: '1px solid #334155',
+              marginBottom: '24px'
+            }}
+          >
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '16px', flexWrap: 'wrap', gap: '8px' }}>
+              <h3 style={{ fontSize: '16px', fontWeight: 'bold', margin: 0 }}>
+                {formatUSDC(transfer?.amount ?? result.amount)}{' '}
+                <span style={{ color: '#94a3b8', fontWeight: 'normal' }}>
+                  {getChainName(result.sourceDomain)} → {getChainName(result.destinationDomain)}
+                  {transfer && ` · ${transfer.mode}`}
+                </span>
+              </h3>
+              <span style={{
+                padding: '4px 10px',
+                borderRadius: '6px',
+                fontSize: '12px',
+                border: '1px solid',
+                borderColor: STATUS_COLORS[result.status] ?? '#f59e0b',
+                color: STATUS_COLORS[result.status] ?? '#f59e0b'
+              }}>
+                {result.status}
+              </span>
+            </div>
+
+            <Timeline steps={buildTimeline(result)} currentTxHash={txHash} />
+
+            {transfer ? (
+              <div style={{ marginTop: '16px', fontSize: '12px', color: '#94a3b8', display: 'grid', gridTemplateColumns: 'auto 1fr', gap: '4px 16px' }}>
+                <span>Transfer ID</span>
+                <span style={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>{transfer.transferId}</span>
+                <span>Sender</span>
+                <Link to={`/address/${encodeURIComponent(transfer.sender)}`} style={{ color: '#3b82f6', fontFamily: 'monospace', wordBreak: 'break-all' }}>
+                  {transfer.sender}
+                </Link>
+                <span>Recipient</span>
+                <span style={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>{transfer.recipient}</span>
+                {transfer.nonce && (
+                  <>
+                    <span>Nonce</span>
+                    <span style={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>{transfer.nonce}</span>
+                  </>
+                )}
+                {transfer.errorReason && (
+                  <>
+                    <span>Error</span>
+                    <span style={{ color: '#ef4444' }}>{transfer.errorReason}</span>
+                  </>
+                )}
+              </div>
+            ) : (
+              <div style={{ marginTop: '16px', fontSize: '12px', color: '#64748b' }}>
+                The other half of this transfer has not been indexed yet
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default TransferPage;
@@ -1,25 +1,69 @@
 /**
- * Period selector component
+ * Period selector component - preset periods and a custom from/to range
  */
 
-import React from 'react';
-import { Period } from '../../services/api';
+import React, { useState } from 'react';
+import { Period, TimeSelection } from '../../services/api';
+import { PERIOD_LABELS } from '../../utils/periods';
 
 interface PeriodSelectorProps {
-    selected: Period;
-    onChange: (period: Period) => void;
+    selected: TimeSelection;
+    onChange: (selection: TimeSelection) => void;
 }
 
-const PERIODS: Array<{ value: Period; label: string }> = [
-    { value: '1min', label: 'Last Minute' },
-    { value: '5min', label: 'Last 5 Minutes' },
-    { value: '15min', label: 'Last 15 Minutes' },
-    { value: '1h', label: 'Last Hour' },
-    { value: '4h', label: 'Last 4 Hours' },
-    { value: '24h', label: 'Last 24 Hours' },
-];
+const PERIODS: Period[] = ['1min', '5min', '15min', '1h', '4h', '24h', '7d', '30d', 'month'];
+
+// datetime-local inputs work in local time without a timezone ("YYYY-MM-DDTHH:mm")
+const toLocalInput = (iso: string): string => {
+    const date = new Date(iso);
+    return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const buttonStyle = (active: boolean): React.CSSProperties => ({
+    padding: '6px 12px',
+    borderRadius: '6px',
+    border: '1px solid',
+    borderColor: active ? '#3b82f6' : '#334155',
+    background: active ? '#1e3a8a' : '#1e293b',
+    color: active ? '#fff' : '#94a3b8',
+    cursor: 'pointer',
+    fontSize: '13px',
+    fontWeight: active ? '500' : 'normal',
+    transition: 'all 0.2s'
+});
+
+const inputStyle: React.CSSProperties = {
+    padding: '5px 8px',
+    borderRadius: '6px',
+    border: '1px solid #334155',
+    background: '#0f172a',
+    color: '#fff',
+    fontSize: '13px',
+    colorScheme: 'dark'
+};
 
 const PeriodSelector: React.FC<PeriodSelectorProps> = ({ selected, onChange }) => {
+    const isCustom = typeof selected !== 'string';
+    const [showCustom, setShowCustom] = useState(isCustom);
+    const [from, setFrom] = useState(isCustom ? toLocalInput(selected.from) : '');
+    const [to, setTo] = useState(isCustom ? toLocalInput(selected.to) : '');
+    const [rangeError, setRangeError] = useState<string | null>(null);
+
+    const applyRange = () => {
+        const fromDate = new Date(from);
+        const toDate = to ? new Date(to) : new Date();
+        if (isNaN(fromDate.getTime()) || isNaN(toDate.getTime())) {
+            setRangeError('Enter a start date');
+            return;
+        }
+        if (fromDate >= toDate) {
+            setRangeError('Start must be before end');
+            return;
+        }
+        setRangeError(null);
+        onChange({ from: fromDate.toISOString(), to: toDate.toISOString() });
+    };
+
     return (
         <div style={{
             display: 'flex',
@@ -30,27 +74,48 @@ const PeriodSelector: React.FC<PeriodSelectorProps> = ({ selected, onChange }) =
             <span style={{ color: '#94a3b8', fontSize: '14px' }}>Period:</span>
             {PERIODS.map(period => (
                 <button
-                    key={period.value}
-                    onClick={() => onChange(period.value)}
-                    style={{
-                        padding: '6px 12px',
-                        borderRadius: '6px',
-                        border: '1px solid',
-                        borderColor: selected === period.value ? '#3b82f6' : '#334155',
-                        background: selected === period.value ? '#1e3a8a' : '#1e293b',
-                        color: selected === period.value ? '#fff' : '#94a3b8',
-                        cursor: 'pointer',
-                        fontSize: '13px',
-                        fontWeight: selected === period.value ? '500' : 'normal',
-                        transition: 'all 0.2s'
+                    key={period}
+                    onClick={() => {
+                        setShowCustom(false);
+                        onChange(period);
                     }}
+                    style={buttonStyle(selected === period)}
                 >
-                    {period.label}
+                    {PERIOD_LABELS[period]}
                 </button>
             ))}
+            <button
+                onClick={() => setShowCustom(!showCustom)}
+                style={buttonStyle(isCustom || showCustom)}
+            >
+                Custom…
+            </button>
+            {showCustom && (
+                <div style={{ display: 'flex', gap: '8px', alignItems: 'center', flexWrap: 'wrap' }}>
+                    <input
+                        type="datetime-local"
+                        value={from}
+                        onChange={e => setFrom(e.target.value)}
+                        style={inputStyle}
+                    />
+                    <span style={{ color: '#64748b', fontSize: '13px' }}>to</span>
+                    <input
+                        type="datetime-local"
+                        value={to}
+                        title="Leave empty to end now"
+                        onChange={e => setTo(e.target.value)}
+                        style={inputStyle}
+                    />
+                    <button onClick={applyRange} style={buttonStyle(false)}>
+                        Apply
+                    </button>
+                    {rangeError && (
+                        <span style={{ color: '#ef4444', fontSize: '13px' }}>{rangeError}</span>
+                    )}
+                </div>
+            )}
         </div>
     );
 };
 
 export default PeriodSelector;
-
@@ -0,0 +1,59 @@
+/**
+ * Header search box - opens the transaction page for tx hashes / Solana signatures, the address page otherwise
+ */
+
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+
+// 32-byte hex (EVM / Starknet tx hash) or a base58 string longer than a pubkey (Solana signature)
+const isTransactionHash = (value: string): boolean =>
+  /^0x[0-9a-fA-F]{64}$/.test(value) || /^[1-9A-HJ-NP-Za-km-z]{64,90}$/.test(value);
+
+const SearchBox: React.FC = () => {
+  const [query, setQuery] = useState('');
+  const navigate = useNavigate();
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = query.trim();
+    if (!value) return;
+    navigate(isTransactionHash(value) ? `/tx/${encodeURIComponent(value)}` : `/address/${encodeURIComponent(value)}`);
+    setQuery('');
+  };
+
+  return (
+    <form onSubmit={handleSubmit} style={{ display: 'flex', gap: '8px' }}>
+      <input
+        type="text"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Search tx hash or address"
+        style={{
+          width: '360px',
+          padding: '6px 12px',
+          borderRadius: '6px',
+          border: '1px solid #334155',
+          background: '#0f172a',
+          color: '#fff',
+          fontSize: '13px'
+        }}
+      />
+      <button
+        type="submit"
+        style={{
+          padding: '6px 12px',
+          borderRadius: '6px',
+          border: '1px solid #3b82f6',
+          background: '#1e3a8a',
+          color: '#fff',
+          cursor: 'pointer',
+          fontSize: '13px'
+        }}
+      >
+        Search
+      </button>
+    </form>
+  );
+};
+
+export default SearchBox;
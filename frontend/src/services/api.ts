@@ -3,11 +3,29 @@
  */
 
 import axios, { AxiosInstance } from 'axios';
-import { ChainMinuteMetrics } from '../types/metrics';
+import { ChainMinuteMetrics, TotalVolume, LatencyMetrics, FeeMetrics, FeeRevenuePoint, AnomaliesResponse } from '../types/metrics';
+import { AddressTransfersPage } from '../types/address';
+import { TransferLookupResponse } from '../types/transfer';
 
 const API_BASE_URL = (import.meta as any).env?.VITE_API_URL || 'http://localhost:3001';
 
-export type Period = '1min' | '5min' | '15min' | '1h' | '4h' | '24h';
+export type Period = '1min' | '5min' | '15min' | '1h' | '4h' | '24h' | '7d' | '30d' | 'month';
+
+// Explicit range as ISO timestamps (from inclusive, to exclusive)
+export interface CustomRange {
+  from: string;
+  to: string;
+}
+
+// What the metrics endpoints are queried for: a preset period or a custom range
+export type TimeSelection = Period | CustomRange;
+
+function timeQuery(selection: TimeSelection): string {
+  if (typeof selection === 'string') {
+    return `period=${selection}`;
+  }
+  return `from=${encodeURIComponent(selection.from)}&to=${encodeURIComponent(selection.to)}`;
+}
 
 class ApiClient {
   private client: AxiosInstance;
@@ -19,9 +37,9 @@ class ApiClient {
     });
   }
 
-  // Get per-chain metrics for a specific period
-  async getChainMetrics(period: Period = '24h'): Promise<ChainMinuteMetrics[]> {
-    const response = await this.client.get(`/metrics/chains?period=${period}`);
+  // Get per-chain metrics for a period or custom range
+  async getChainMetrics(range: TimeSelection = '24h'): Promise<ChainMinuteMetrics[]> {
+    const response = await this.client.get(`/metrics/chains?${timeQuery(range)}`);
     return response.data;
   }
 
@@ -31,38 +49,74 @@ class ApiClient {
     return response.data;
   }
 
-  // Get total volume for a period
-  async getTotalVolume(period: Period = '24h'): Promise<{ in: string; out: string; total: string }> {
-    const response = await this.client.get(`/metrics/total?period=${period}`);
+  // Get total volume for a period (with finalized share)
+  async getTotalVolume(range: TimeSelection = '24h'): Promise<TotalVolume> {
+    const response = await this.client.get(`/metrics/total?${timeQuery(range)}`);
     return response.data;
   }
 
   // Get outgoing details for a chain
-  async getChainOutgoing(domain: number, period: Period = '24h'): Promise<Array<{ destinationDomain: number; volume: string }>> {
-    const response = await this.client.get(`/metrics/chain/${domain}/outgoing?period=${period}`);
+  async getChainOutgoing(domain: number, range: TimeSelection = '24h'): Promise<Array<{ destinationDomain: number; volume: string; fastVolume: string }>> {
+    const response = await this.client.get(`/metrics/chain/${domain}/outgoing?${timeQuery(range)}`);
     return response.data;
   }
 
   // Get incoming details for a chain
-  async getChainIncoming(domain: number, period: Period = '24h'): Promise<Array<{ sourceDomain: number; volume: string }>> {
-    const response = await this.client.get(`/metrics/chain/${domain}/incoming?period=${period}`);
+  async getChainIncoming(domain: number, range: TimeSelection = '24h'): Promise<Array<{ sourceDomain: number; volume: string; fastVolume: string }>> {
+    const response = await this.client.get(`/metrics/chain/${domain}/incoming?${timeQuery(range)}`);
     return response.data;
   }
 
   // Get volume chart data
-  async getVolumeChart(period: Period = '24h', buckets: number = 20): Promise<Array<{ time: string; in: string; out: string; total: string }>> {
-    const response = await this.client.get(`/metrics/volume-chart?period=${period}&buckets=${buckets}`);
+  async getVolumeChart(range: TimeSelection = '24h', buckets: number = 20): Promise<Array<{ time: string; in: string; out: string; total: string }>> {
+    const response = await this.client.get(`/metrics/volume-chart?${timeQuery(range)}&buckets=${buckets}`);
     return response.data;
   }
 
   // Get chain volume chart data (outgoing or incoming) with breakdown by chain
   async getChainVolumeChart(
     domain: number, 
-    period: Period = '24h', 
+    range: TimeSelection = '24h', 
     type: 'outgoing' | 'incoming' = 'outgoing',
     buckets: number = 20
   ): Promise<Array<{ time: string; total: string; [key: string]: string }>> {
-    const response = await this.client.get(`/metrics/chain/${domain}/chart?period=${period}&type=${type}&buckets=${buckets}`);
+    const response = await this.client.get(`/metrics/chain/${domain}/chart?${timeQuery(range)}&type=${type}&buckets=${buckets}`);
+    return response.data;
+  }
+
+  // Get burn -> attestation -> mint latency per mode and per route
+  async getLatency(range: TimeSelection = '24h'): Promise<LatencyMetrics> {
+    const response = await this.client.get(`/metrics/latency?${timeQuery(range)}`);
+    return response.data;
+  }
+
+  // Get fees collected on mints per destination and per route/mode
+  async getFees(range: TimeSelection = '24h'): Promise<FeeMetrics> {
+    const response = await this.client.get(`/metrics/fees?${timeQuery(range)}`);
+    return response.data;
+  }
+
+  // Get fee revenue over time, split by mode
+  async getFeeChart(range: TimeSelection = '24h', buckets: number = 20): Promise<FeeRevenuePoint[]> {
+    const response = await this.client.get(`/metrics/fees/chart?${timeQuery(range)}&buckets=${buckets}`);
+    return response.data;
+  }
+
+  // Get open anomalies (stuck transfers) and counts per type
+  async getAnomalies(limit: number = 100): Promise<AnomaliesResponse> {
+    const response = await this.client.get(`/anomalies?limit=${limit}`);
+    return response.data;
+  }
+
+  // Get burns by and mints to an address, with per-chain totals
+  async getAddressTransfers(address: string, limit: number = 50, offset: number = 0): Promise<AddressTransfersPage> {
+    const response = await this.client.get(`/addresses/${encodeURIComponent(address)}/transfers?limit=${limit}&offset=${offset}`);
+    return response.data;
+  }
+
+  // Find the transfers burned or minted in a transaction
+  async getTransfersByTx(txHash: string): Promise<TransferLookupResponse> {
+    const response = await this.client.get(`/transfers/by-tx/${encodeURIComponent(txHash)}`);
     return response.data;
   }
 
@@ -0,0 +1,38 @@
+/**
+ * Address explorer types (shared with backend)
+ */
+
+import { TransferMode, TransferStatus } from './transfer';
+
+export type AddressActivityDirection = 'IN' | 'OUT';
+
+export interface AddressActivity {
+  direction: AddressActivityDirection;
+  chainDomain: number;
+  counterpartyDomain: number;
+  amount: string;
+  txHash: string;
+  logIndex: number;
+  blockTime: string;
+  transferId: string | null;
+  mode: TransferMode | null;
+  status: TransferStatus | null;
+  mintRecipient: string | null;
+}
+
+export interface AddressChainTotals {
+  chainDomain: number;
+  inCount: number;
+  outCount: number;
+  inVolume: string;
+  outVolume: string;
+}
+
+export interface AddressTransfersPage {
+  address: string;
+  totals: AddressChainTotals[];
+  items: AddressActivity[];
+  total: number;
+  limit: number;
+  offset: number;
+}
@@ -2,10 +2,106 @@
  * Metrics types - Simplified for per-chain minute metrics
  */
 
+import { TransferMode, TransferStatus } from './transfer';
+
 export interface ChainMinuteMetrics {
   domain: number;
   name: string;
   incomingUSDC: string;  // Amount in smallest unit (6 decimals)
+  incomingFastUSDC: string; // Part of incomingUSDC from Fast Transfers
   outgoingUSDC: string;
+  outgoingFastUSDC: string; // Part of outgoingUSDC from Fast Transfers
+}
+
+
+export interface VolumeTotals {
+  in: string;
+  out: string;
+  total: string;
+}
+
+export interface TotalVolume extends VolumeTotals {
+  finalized: VolumeTotals; // Part of the volume at or below each chain's finalized block
+}
+
+export interface LatencyStats {
+  count: number;
+  avgMs: number | null;
+  p50Ms: number | null;
+  p95Ms: number | null;
+  p99Ms: number | null;
+}
+
+export interface StageLatency {
+  burnToMint: LatencyStats;
+  burnToIris: LatencyStats;
+  irisToMint: LatencyStats;
+}
+
+export interface ModeLatency extends StageLatency {
+  mode: TransferMode;
+}
+
+export interface RouteLatency extends StageLatency {
+  fromChain: number;
+  toChain: number;
+  mode: TransferMode;
+}
+
+export interface LatencyMetrics {
+  byMode: ModeLatency[];
+  byRoute: RouteLatency[];
+}
+
+export interface FeeStats {
+  mintCount: number;
+  feeTotal: string;
+  volume: string;
+  effectiveFeeBps: number | null;
+  maxFeeBps: number | null;
+}
+
+export interface DestinationFees extends FeeStats {
+  chainDomain: number;
+}
+
+export interface RouteFees extends FeeStats {
+  fromChain: number;
+  toChain: number;
+  mode: TransferMode | null;
 }
 
+export interface FeeMetrics {
+  byDestination: DestinationFees[];
+  byRoute: RouteFees[];
+}
+
+export interface FeeRevenuePoint {
+  time: string;
+  fast: string;
+  standard: string;
+  total: string;
+}
+
+export type AnomalyType = 'PENDING_TOO_LONG' | 'NO_ATTESTATION' | 'RECEIVE_ERROR' | 'NOT_MINTED' | 'EXPIRED';
+
+export interface Anomaly {
+  transferId: string;
+  type: AnomalyType;
+  expectedLatencyMs: number;
+  description: string;
+  sourceDomain: number;
+  destinationDomain: number;
+  mode: TransferMode;
+  amount: string;
+  status: TransferStatus;
+  burnTxHash: string | null;
+  burnAt: string;
+  ageMs: number;
+  detectedAt: string;
+}
+
+export interface AnomaliesResponse {
+  counts: Record<AnomalyType, number>;
+  anomalies: Anomaly[];
+}
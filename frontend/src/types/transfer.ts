@@ -30,16 +30,38 @@ export interface Transfer {
   mode: TransferMode;
   tokenType: TokenType;
   amount: string;
-  burnTxHash: string;
+  burnTxHash: string | null;
   mintTxHash: string | null;
-  burnAt: Date | string;
+  burnAt: Date | string | null;
   irisAttestedAt: Date | string | null;
   mintAt: Date | string | null;
   status: TransferStatus;
   errorReason: string | null;
-  nonce: string;
+  nonce: string | null;
+  messageBody: string | null;
   sender: string;
   recipient: string;
+  minFinalityThreshold: number;
+  maxFee: string;
+  finalityThresholdExecuted: number | null;
+}
+
+// A burn or mint found by transaction hash, with the transfer it belongs to (if linked)
+export interface TransferLookup {
+  event: 'BURN' | 'MINT';
+  chainDomain: number;
+  sourceDomain: number;
+  destinationDomain: number;
+  amount: string;
+  logIndex: number;
+  blockTime: string;
+  status: TransferStatus;
+  transfer: Transfer | null;
+}
+
+export interface TransferLookupResponse {
+  txHash: string;
+  results: TransferLookup[];
 }
 
 export interface TransferUpdate {
@@ -0,0 +1,24 @@
+/**
+ * Labels for metrics period presets and custom ranges
+ */
+
+import { Period, TimeSelection } from '../services/api';
+
+export const PERIOD_LABELS: Record<Period, string> = {
+  '1min': 'Last Minute',
+  '5min': 'Last 5 Minutes',
+  '15min': 'Last 15 Minutes',
+  '1h': 'Last Hour',
+  '4h': 'Last 4 Hours',
+  '24h': 'Last 24 Hours',
+  '7d': 'Last 7 Days',
+  '30d': 'Last 30 Days',
+  'month': 'This Month',
+};
+
+export const getPeriodLabel = (selection: TimeSelection): string => {
+  if (typeof selection === 'string') {
+    return PERIOD_LABELS[selection];
+  }
+  return `${new Date(selection.from).toLocaleString()} → ${new Date(selection.to).toLocaleString()}`;
+};